@@ -10,10 +10,25 @@ const options = {
 
     entryPoints: [
         "src/index.ts",
+        "src/adb.ts",
         "src/cli.ts",
+        "src/appium.ts",
+        "src/detectors.ts",
+        "src/diagnostics.ts",
+        "src/errors.ts",
         "src/glue.ts",
+        "src/selectors.ts",
+        "src/server.ts",
+        "src/snapshot.ts",
+        "src/trace.ts",
         "src/units.ts",
+        "src/wallet.ts",
+        "src/lock.ts",
         "src/logger.ts",
+        "src/report.ts",
+        "src/networks.ts",
+        "src/events.ts",
+        "src/retry.ts",
     ],
 
     bundle: false,
@@ -0,0 +1,159 @@
+import { logger } from "./logger.js";
+import { execFile } from "node:child_process";
+import { join } from "node:path";
+import process from "node:process";
+
+const log = logger.child({ component: "adb" });
+
+/**
+ * Runs `adb` with `args`, resolving with its stdout.
+ */
+export type AdbRunner = (args: string[]) => Promise<string>;
+
+/**
+ * Path to `adb`, preferring the SDK appium itself would use.
+ */
+export function adbPath(env: NodeJS.ProcessEnv = process.env): string {
+    const sdk = env.ANDROID_HOME ?? env.ANDROID_SDK_ROOT;
+    return sdk === undefined ? "adb" : join(sdk, "platform-tools", "adb");
+}
+
+export function runAdb(adb: string = adbPath()): AdbRunner {
+    return (args) =>
+        new Promise((resolve, reject) => {
+            execFile(adb, args, { timeout: 15000 }, (error, stdout, stderr) => {
+                if (!error) {
+                    resolve(stdout);
+                } else if ("code" in error && error.code === "ENOENT") {
+                    reject(
+                        new Error(
+                            `${adb} wasn't found; install the android platform tools or set ANDROID_HOME`,
+                        ),
+                    );
+                } else {
+                    reject(new Error(stderr.trim() || error.message));
+                }
+            });
+        });
+}
+
+/**
+ * Serials of the devices adb can use, in the order `adb devices` lists
+ * them. Devices that are offline or haven't authorized this machine are
+ * skipped with a warning.
+ */
+export async function listDevices(
+    run: AdbRunner = runAdb(),
+): Promise<string[]> {
+    const output = await run(["devices"]);
+    const serials = [];
+
+    for (const line of output.split("\n")) {
+        // Skip the header, and messages about starting the adb server.
+        if (line.startsWith("List of devices") || line.startsWith("*")) {
+            continue;
+        }
+
+        const [serial, state] = line.trim().split(/\s+/);
+        if (!serial || !state) {
+            continue;
+        }
+
+        if (state === "device") {
+            serials.push(serial);
+        } else {
+            log.warn(`skipping device ${serial}, which is ${state}`);
+        }
+    }
+
+    return serials;
+}
+
+const LOOPBACK = new Set(["localhost", "127.0.0.1", "[::1]", "::1"]);
+
+export function isLoopback(hostname: string): boolean {
+    return LOOPBACK.has(hostname.toLowerCase());
+}
+
+/**
+ * Makes ports on this machine reachable from the device's loopback address
+ * with `adb reverse`, and removes the forwarding again when closed.
+ */
+export class ReversePorts {
+    private readonly serial: string | undefined;
+    private readonly run: AdbRunner;
+    private readonly forwarded = new Set<number>();
+
+    /**
+     * @param serial - device to forward to, needed when more than one is
+     *                 attached.
+     */
+    constructor(serial?: string, run: AdbRunner = runAdb()) {
+        this.serial = serial;
+        this.run = run;
+    }
+
+    private adb(...args: string[]): Promise<string> {
+        const device = this.serial === undefined ? [] : ["-s", this.serial];
+        return this.run([...device, ...args]);
+    }
+
+    /**
+     * Forward `port` on the device to the same port here. Failures are
+     * logged rather than thrown, since forwarding may have been set up some
+     * other way. Resolves to whether the port is forwarded.
+     */
+    public async forward(port: number, purpose: string): Promise<boolean> {
+        if (this.forwarded.has(port)) {
+            return true;
+        }
+
+        try {
+            await this.adb("reverse", `tcp:${port}`, `tcp:${port}`);
+        } catch (e) {
+            log.warn(
+                `couldn't forward device port ${port} for ${purpose} with adb reverse, so the device can only reach it if it's forwarded some other way: ${String(e)}`,
+            );
+            return false;
+        }
+
+        this.forwarded.add(port);
+        log.info(`forwarding device port ${port} for ${purpose}`);
+        return true;
+    }
+
+    /**
+     * Forward the port of `url` if it points at this machine's loopback
+     * address. Other URLs are left alone.
+     */
+    public async forwardUrl(url: string, purpose: string): Promise<boolean> {
+        const parsed = new URL(url);
+        if (!isLoopback(parsed.hostname)) {
+            return false;
+        }
+
+        let port = Number(parsed.port);
+        if (parsed.port === "") {
+            port =
+                parsed.protocol === "https:" || parsed.protocol === "wss:"
+                    ? 443
+                    : 80;
+        }
+
+        return await this.forward(port, purpose);
+    }
+
+    /**
+     * Remove every forwarding this instance set up.
+     */
+    public async close(): Promise<void> {
+        for (const port of this.forwarded) {
+            try {
+                await this.adb("reverse", "--remove", `tcp:${port}`);
+            } catch (e) {
+                log.warn(`couldn't remove forwarding of port ${port}:`, e);
+            }
+        }
+        this.forwarded.clear();
+    }
+}
@@ -0,0 +1,202 @@
+import { logger } from "./logger.js";
+import { readFile } from "node:fs/promises";
+import { URL } from "node:url";
+import { Browser } from "webdriverio";
+
+export interface AppiumOptions {
+    url: string;
+    udid?: string;
+    newCommandTimeout: number;
+    appPackage: string;
+    appActivity: string;
+    capabilities: Record<string, unknown>;
+}
+
+export const DEFAULT_APPIUM_OPTIONS: Readonly<AppiumOptions> = {
+    url: "http://127.0.0.1:4723/",
+    newCommandTimeout: 120,
+    appPackage: "io.metamask",
+    appActivity: ".MainActivity",
+    capabilities: {},
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Capabilities without a vendor prefix are assumed to belong to appium.
+ */
+function prefixCapability(key: string): string {
+    if (key === "platformName" || key.includes(":")) {
+        return key;
+    }
+    return `appium:${key}`;
+}
+
+/**
+ * Parse a `key=value` capability from the command line. The value is parsed
+ * as JSON when possible, and used as a plain string otherwise.
+ */
+export function parseCapability(text: string): [string, unknown] {
+    const index = text.indexOf("=");
+    if (index < 1) {
+        throw new Error(`capability must be in the form key=value: ${text}`);
+    }
+
+    const key = prefixCapability(text.slice(0, index));
+    const raw = text.slice(index + 1);
+
+    let value: unknown;
+    try {
+        value = JSON.parse(raw);
+    } catch (_) {
+        value = raw;
+    }
+
+    return [key, value];
+}
+
+/**
+ * Read appium options from a JSON file. Every key is optional, and unknown
+ * keys are rejected to catch typos early.
+ */
+export async function readAppiumConfig(
+    path: string,
+): Promise<Partial<AppiumOptions>> {
+    const parsed: unknown = JSON.parse(await readFile(path, "utf8"));
+    if (!isRecord(parsed)) {
+        throw new Error(`appium config must be a JSON object: ${path}`);
+    }
+
+    const config: Partial<AppiumOptions> = {};
+
+    for (const [key, value] of Object.entries(parsed)) {
+        switch (key) {
+            case "url":
+            case "udid":
+            case "appPackage":
+            case "appActivity":
+                if (typeof value !== "string") {
+                    throw new Error(`appium config: ${key} must be a string`);
+                }
+                config[key] = value;
+                break;
+            case "newCommandTimeout":
+                if (typeof value !== "number") {
+                    throw new Error(`appium config: ${key} must be a number`);
+                }
+                config[key] = value;
+                break;
+            case "capabilities":
+                if (!isRecord(value)) {
+                    throw new Error(`appium config: ${key} must be an object`);
+                }
+                config.capabilities = {};
+                for (const [capKey, capValue] of Object.entries(value)) {
+                    config.capabilities[prefixCapability(capKey)] = capValue;
+                }
+                break;
+            default:
+                throw new Error(`appium config: unknown key ${key}`);
+        }
+    }
+
+    return config;
+}
+
+export function buildCapabilities(
+    options: AppiumOptions,
+): Record<string, unknown> {
+    const capabilities: Record<string, unknown> = {
+        platformName: "Android",
+        "appium:automationName": "UiAutomator2",
+        "appium:newCommandTimeout": options.newCommandTimeout,
+        "appium:appPackage": options.appPackage,
+        "appium:appActivity": options.appActivity,
+    };
+
+    if (options.udid !== undefined) {
+        capabilities["appium:udid"] = options.udid;
+    }
+
+    return { ...capabilities, ...options.capabilities };
+}
+
+/**
+ * Port UiAutomator2 uses to reach the first device in a parallel run.
+ */
+const FIRST_SYSTEM_PORT = 8200;
+
+/**
+ * Options for the `index`th of several devices run in parallel, on `udid`.
+ * Sessions on one appium server each need their own `appium:systemPort`, so
+ * one is picked from the device's position unless a capability sets it.
+ */
+export function forDevice(
+    options: Partial<AppiumOptions>,
+    udid: string,
+    index: number,
+): Partial<AppiumOptions> {
+    return {
+        ...options,
+        udid,
+        capabilities: {
+            "appium:systemPort": FIRST_SYSTEM_PORT + index,
+            ...options.capabilities,
+        },
+    };
+}
+
+export type RemoteOptions = ReturnType<typeof buildRemoteOptions>;
+
+export function buildRemoteOptions(options: AppiumOptions) {
+    const url = new URL(options.url);
+    const protocol = url.protocol.replace(/:$/, "");
+
+    if (protocol !== "http" && protocol !== "https") {
+        throw new Error(`unsupported appium protocol: ${url.protocol}`);
+    }
+
+    let port;
+    if (url.port) {
+        port = Number.parseInt(url.port, 10);
+    } else {
+        port = protocol === "https" ? 443 : 80;
+    }
+
+    return {
+        protocol,
+        hostname: url.hostname,
+        port,
+        path: url.pathname,
+        capabilities: buildCapabilities(options),
+    };
+}
+
+/**
+ * Read the installed version of `appPackage` through `adb shell dumpsys`.
+ * Returns `null` if the version can't be read, for example when appium was
+ * started without `--allow-insecure=adb_shell`.
+ */
+export async function readAppVersion(
+    driver: Browser,
+    appPackage: string,
+): Promise<string | null> {
+    let output: unknown;
+    try {
+        output = await driver.executeScript("mobile: shell", [
+            { command: "dumpsys", args: ["package", appPackage] },
+        ]);
+    } catch (e) {
+        logger.warn("couldn't read app version:", e);
+        return null;
+    }
+
+    if (typeof output !== "string") {
+        return null;
+    }
+
+    const match = /versionName=(\S+)/.exec(output);
+    return match ? match[1] : null;
+}
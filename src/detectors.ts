@@ -0,0 +1,101 @@
+import { logger } from "./logger.js";
+import { Snapshot } from "./snapshot.js";
+import { Browser } from "webdriverio";
+
+/**
+ * A glue event emitted in response to a MetaMask modal. `modal` is the name
+ * of the detector that produced it.
+ */
+export interface DetectedEvent {
+    uuid: string;
+    modal: string;
+}
+
+/**
+ * Recognizes one kind of MetaMask screen, and emits the matching glue event
+ * when it appears.
+ */
+export interface Detector {
+    name: string;
+
+    /**
+     * Detectors with a higher priority win when several match at once.
+     */
+    priority: number;
+
+    /**
+     * Breaks ties between matching detectors of equal priority, with higher
+     * values winning. By convention this is the number of conditions
+     * `detect` checks, so a detector for a narrower screen beats a more
+     * general one.
+     */
+    specificity: number;
+
+    /**
+     * Check for the screen in a snapshot of the UI hierarchy. This runs on
+     * every watcher tick, so it must not talk to the device.
+     */
+    detect(snapshot: Snapshot): boolean;
+
+    /**
+     * Read the details of the detected screen from the device and emit the
+     * glue event. Resolves to `null` when the screen can't be reported,
+     * which leaves it unanswered instead of failing the watcher.
+     */
+    emit(driver: Browser): Promise<DetectedEvent | null>;
+}
+
+export class DetectorRegistry {
+    private readonly detectors: Detector[] = [];
+
+    public register(detector: Detector): void {
+        if (this.detectors.some((d) => d.name === detector.name)) {
+            throw new Error(`detector "${detector.name}" already registered`);
+        }
+        this.detectors.push(detector);
+    }
+
+    public unregister(name: string): boolean {
+        const index = this.detectors.findIndex((d) => d.name === name);
+        if (index < 0) {
+            return false;
+        }
+        this.detectors.splice(index, 1);
+        return true;
+    }
+
+    public get names(): string[] {
+        return this.detectors.map((d) => d.name);
+    }
+
+    /**
+     * Run every detector and return the best match, or `null` if none
+     * matched. Among several matches, the highest priority wins, then the
+     * highest specificity, then the detector registered first.
+     */
+    public match(snapshot: Snapshot): Detector | null {
+        return this.best(this.detectors.filter((d) => d.detect(snapshot)));
+    }
+
+    /**
+     * Choose among `matched` detectors, which must be in registration order.
+     */
+    public best(matched: readonly Detector[]): Detector | null {
+        if (matched.length === 0) {
+            return null;
+        }
+
+        // Array.prototype.sort is stable, so registration order breaks ties.
+        const ranked = [...matched].sort(
+            (a, b) => b.priority - a.priority || b.specificity - a.specificity,
+        );
+
+        if (ranked.length > 1) {
+            logger.debug(
+                `detectors ${ranked.map((d) => d.name).join(", ")} matched, using ${ranked[0].name}`,
+            );
+        }
+
+        return ranked[0];
+    }
+}
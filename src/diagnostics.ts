@@ -0,0 +1,190 @@
+import { logger } from "./logger.js";
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { Browser } from "webdriverio";
+
+/**
+ * Number of logcat lines kept when a step fails.
+ */
+const LOGCAT_LINES = 500;
+
+/**
+ * A driver step that threw, along with where its diagnostics were saved.
+ */
+export class StepFailure extends Error {
+    public readonly step: string;
+    public readonly cause: unknown;
+
+    /**
+     * The selector webdriverio was looking for, if the failure was caused by
+     * a missing element.
+     */
+    public readonly selector: string | null;
+
+    /**
+     * Directory holding the screenshot, page source, and logs captured when
+     * the step failed, or `null` if none were saved.
+     */
+    public readonly artifacts: string | null;
+
+    constructor(
+        step: string,
+        cause: unknown,
+        selector: string | null,
+        artifacts: string | null,
+    ) {
+        const reason = cause instanceof Error ? cause.message : String(cause);
+        super(`${step} failed: ${reason}`);
+        this.name = "StepFailure";
+        this.step = step;
+        this.cause = cause;
+        this.selector = selector;
+        this.artifacts = artifacts;
+    }
+}
+
+/**
+ * Pull the selector out of webdriverio's element errors, like:
+ *
+ *   Can't call click on element with selector "//x" because element wasn't found
+ *   element ("//x") still not existing after 10000ms
+ */
+export function failedSelector(error: unknown): string | null {
+    if (!(error instanceof Error)) {
+        return null;
+    }
+
+    const match =
+        /with selector "(.*)" because/.exec(error.message) ??
+        /element \("(.*)"\) still not/.exec(error.message);
+
+    return match ? match[1] : null;
+}
+
+function timestamp(): string {
+    return new Date().toISOString().replace(/[:.]/g, "-");
+}
+
+interface LogEntry {
+    timestamp?: number;
+    level?: string;
+    message?: string;
+}
+
+/**
+ * Saves what the device was doing when a step fails.
+ */
+export class Diagnostics {
+    private readonly dir: string | null;
+    private readonly appPackage: string;
+
+    /**
+     * @param dir - where to save artifacts, or `null` to only log a summary.
+     */
+    constructor(dir: string | null, appPackage: string) {
+        this.dir = dir;
+        this.appPackage = appPackage;
+    }
+
+    /**
+     * Capture the device state after `step` threw `error`, log a summary,
+     * and return the failure to throw in its place.
+     */
+    public async collect(
+        driver: Browser,
+        step: string,
+        error: unknown,
+    ): Promise<StepFailure> {
+        if (error instanceof StepFailure) {
+            // Already collected closer to where it was thrown.
+            return error;
+        }
+
+        const selector = failedSelector(error);
+        let artifacts: string | null = null;
+
+        if (this.dir !== null) {
+            artifacts = join(this.dir, `${timestamp()}-${step}`);
+            try {
+                await this.save(driver, artifacts, step, selector, error);
+            } catch (e) {
+                logger.warn("couldn't save diagnostics:", e);
+                artifacts = null;
+            }
+        }
+
+        const failure = new StepFailure(step, error, selector, artifacts);
+
+        logger
+            .child({
+                step,
+                selector: selector ?? undefined,
+                artifacts: artifacts ?? undefined,
+            })
+            .error(failure.message);
+
+        return failure;
+    }
+
+    private async save(
+        driver: Browser,
+        dir: string,
+        step: string,
+        selector: string | null,
+        error: unknown,
+    ): Promise<void> {
+        await mkdir(dir, { recursive: true });
+
+        // The device may be what failed, so grab each piece independently.
+        const attempt = async (what: string, fn: () => Promise<unknown>) => {
+            try {
+                await fn();
+            } catch (e) {
+                logger.warn(`couldn't capture ${what}:`, e);
+            }
+        };
+
+        let appState: unknown = null;
+
+        await attempt("screenshot", async () => {
+            const png = await driver.takeScreenshot();
+            await writeFile(join(dir, "screenshot.png"), png, "base64");
+        });
+
+        await attempt("page source", async () => {
+            const source = await driver.getPageSource();
+            await writeFile(join(dir, "source.xml"), source);
+        });
+
+        await attempt("app state", async () => {
+            appState = await driver.executeScript("mobile: queryAppState", [
+                { appId: this.appPackage },
+            ]);
+        });
+
+        await attempt("logcat", async () => {
+            const entries = (await driver.getLogs("logcat")) as LogEntry[];
+            const lines = entries.slice(-LOGCAT_LINES).map((e) => {
+                const time =
+                    e.timestamp === undefined
+                        ? ""
+                        : new Date(e.timestamp).toISOString();
+                return `${time} ${e.level ?? ""} ${e.message ?? ""}`.trim();
+            });
+            await writeFile(join(dir, "logcat.txt"), lines.join("\n") + "\n");
+        });
+
+        const summary = {
+            step,
+            selector,
+            appState,
+            error: error instanceof Error ? error.message : String(error),
+            stack: error instanceof Error ? error.stack : undefined,
+        };
+
+        await writeFile(
+            join(dir, "summary.json"),
+            JSON.stringify(summary, null, 4),
+        );
+    }
+}
@@ -0,0 +1,102 @@
+import { StepFailure } from "./diagnostics.js";
+
+/**
+ * The appium server or the device behind it couldn't be reached.
+ */
+export class DeviceUnreachableError extends Error {
+    public readonly cause: unknown;
+
+    constructor(message: string, cause?: unknown) {
+        super(message);
+        this.name = "DeviceUnreachableError";
+        this.cause = cause;
+    }
+}
+
+/**
+ * MetaMask wasn't showing the request a glue action was meant to answer.
+ */
+export class UnexpectedModalError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "UnexpectedModalError";
+    }
+}
+
+/**
+ * The test page never sent its report.
+ */
+export class ReportTimeoutError extends Error {
+    constructor(seconds: number) {
+        super(`no report received after ${seconds} seconds`);
+        this.name = "ReportTimeoutError";
+    }
+}
+
+/**
+ * The process was asked to stop before the run finished.
+ */
+export class InterruptedError extends Error {
+    public readonly signal: string;
+
+    constructor(signal: string) {
+        super(`interrupted by ${signal}`);
+        this.name = "InterruptedError";
+        this.signal = signal;
+    }
+}
+
+export type FailureCategory =
+    | "setup"
+    | "device-unreachable"
+    | "selector-not-found"
+    | "unexpected-modal"
+    | "report-timeout"
+    | "interrupted"
+    | "unknown";
+
+/**
+ * Process exit code for each kind of failure. Exit code 2 is left for
+ * invalid command line options.
+ */
+export const EXIT_CODES: Readonly<Record<FailureCategory, number>> = {
+    unknown: 1,
+    setup: 3,
+    "device-unreachable": 4,
+    "selector-not-found": 5,
+    "unexpected-modal": 6,
+    "report-timeout": 7,
+    interrupted: 130,
+};
+
+/**
+ * Messages from node and webdriverio meaning the other end went away.
+ */
+const UNREACHABLE =
+    /ECONNREFUSED|ECONNRESET|EHOSTUNREACH|ETIMEDOUT|socket hang up|invalid session id|session is either terminated/i;
+
+export function categorize(error: unknown): FailureCategory {
+    const cause = error instanceof StepFailure ? error.cause : error;
+
+    if (cause instanceof DeviceUnreachableError) {
+        return "device-unreachable";
+    } else if (cause instanceof UnexpectedModalError) {
+        return "unexpected-modal";
+    } else if (cause instanceof ReportTimeoutError) {
+        return "report-timeout";
+    } else if (cause instanceof InterruptedError) {
+        return "interrupted";
+    } else if (cause instanceof Error && UNREACHABLE.test(cause.message)) {
+        return "device-unreachable";
+    }
+
+    if (error instanceof StepFailure) {
+        if (error.step === "setup") {
+            return "setup";
+        } else if (error.selector !== null) {
+            return "selector-not-found";
+        }
+    }
+
+    return "unknown";
+}
@@ -0,0 +1,191 @@
+import { UnexpectedModalError } from "./errors.js";
+
+export const EVENT_STATES = [
+    "detected",
+    "emitted",
+    "actioned",
+    "resolved",
+    "expired",
+] as const;
+
+/**
+ * Where a wallet request is in its life:
+ *
+ * - `detected`: its modal was recognized, and the event is being read.
+ * - `emitted`: the glue event was sent, and no action has answered it yet.
+ * - `actioned`: a glue action for it is answering its modal.
+ * - `resolved`: the action answered the modal.
+ * - `expired`: nothing answered it in time, or it couldn't be emitted.
+ */
+export type EventState = (typeof EVENT_STATES)[number];
+
+const TRANSITIONS: Readonly<Record<EventState, readonly EventState[]>> = {
+    detected: ["emitted", "expired"],
+    emitted: ["actioned", "expired"],
+    // A failed action leaves the request for another attempt.
+    actioned: ["resolved", "emitted"],
+    resolved: [],
+    expired: [],
+};
+
+/**
+ * How long an emitted event waits for a glue action before expiring.
+ */
+export const DEFAULT_EVENT_TIMEOUT_MS = 300000;
+
+export interface TrackedEvent {
+    /**
+     * ID of the glue event, once emitted.
+     */
+    uuid: string | null;
+
+    /**
+     * Name of the detector whose modal produced the event.
+     */
+    modal: string;
+
+    state: EventState;
+
+    /**
+     * When the event entered its current state.
+     */
+    since: number;
+}
+
+/**
+ * The wallet requests seen during a session. MetaMask queues dapp requests
+ * and shows them one at a time, so the watcher only sees the next one once
+ * the last has left the screen. Several can still be outstanding, when a
+ * modal goes away without a glue action answering it, but only the one
+ * emitted last can be on screen.
+ */
+export class EventQueue {
+    private readonly events: TrackedEvent[] = [];
+    private latest: TrackedEvent | null = null;
+    private readonly timeout: number;
+    private readonly now: () => number;
+
+    constructor(
+        timeout: number = DEFAULT_EVENT_TIMEOUT_MS,
+        now: () => number = () => performance.now(),
+    ) {
+        this.timeout = timeout;
+        this.now = now;
+    }
+
+    private move(event: TrackedEvent, state: EventState): void {
+        if (!TRANSITIONS[event.state].includes(state)) {
+            throw new Error(
+                `bug: event ${event.uuid ?? event.modal} can't go from ${event.state} to ${state}`,
+            );
+        }
+        event.state = state;
+        event.since = this.now();
+    }
+
+    /**
+     * Start tracking a request whose modal was just recognized.
+     */
+    public detect(modal: string): TrackedEvent {
+        const event: TrackedEvent = {
+            uuid: null,
+            modal,
+            state: "detected",
+            since: this.now(),
+        };
+        this.events.push(event);
+        return event;
+    }
+
+    public emitted(event: TrackedEvent, uuid: string): void {
+        event.uuid = uuid;
+        this.move(event, "emitted");
+        this.latest = event;
+    }
+
+    /**
+     * Give up on an event that couldn't be read or emitted.
+     */
+    public abandon(event: TrackedEvent): void {
+        this.move(event, "expired");
+    }
+
+    public get(uuid: string): TrackedEvent | undefined {
+        return this.events.find((e) => e.uuid === uuid);
+    }
+
+    /**
+     * Events that have been emitted and not yet answered or expired, oldest
+     * first.
+     */
+    public get outstanding(): TrackedEvent[] {
+        return this.events.filter(
+            (e) => e.state === "emitted" || e.state === "actioned",
+        );
+    }
+
+    /**
+     * The outstanding event whose modal MetaMask should be showing, which is
+     * the one emitted last, if it hasn't been answered or expired.
+     */
+    public get front(): TrackedEvent | null {
+        const latest = this.latest;
+        if (latest?.state === "emitted" || latest?.state === "actioned") {
+            return latest;
+        }
+        return null;
+    }
+
+    /**
+     * Claim event `uuid` for a glue action. Throws an `UnexpectedModalError`
+     * if it isn't waiting for one, or if its modal can't be the one on
+     * screen.
+     */
+    public claim(uuid: string): TrackedEvent {
+        const event = this.get(uuid);
+        if (event === undefined) {
+            throw new UnexpectedModalError(`no request ${uuid} was emitted`);
+        }
+        if (event.state !== "emitted") {
+            throw new UnexpectedModalError(
+                `request ${uuid} (${event.modal}) is already ${event.state}`,
+            );
+        }
+        if (event !== this.front) {
+            throw new UnexpectedModalError(
+                `request ${uuid} (${event.modal}) is no longer on screen`,
+            );
+        }
+        this.move(event, "actioned");
+        return event;
+    }
+
+    /**
+     * The action for `event` answered its modal.
+     */
+    public resolve(event: TrackedEvent): void {
+        this.move(event, "resolved");
+    }
+
+    /**
+     * The action for `event` failed, so it is waiting for an action again.
+     */
+    public release(event: TrackedEvent): void {
+        this.move(event, "emitted");
+    }
+
+    /**
+     * Expire emitted events that have waited longer than the timeout, and
+     * return them.
+     */
+    public expire(): TrackedEvent[] {
+        const now = this.now();
+        const expired = this.events.filter(
+            (e) => e.state === "emitted" && now - e.since >= this.timeout,
+        );
+        for (const event of expired) {
+            this.move(event, "expired");
+        }
+        return expired;
+    }
+}
@@ -1,7 +1,37 @@
+import { ReversePorts } from "./adb.js";
+import {
+    AppiumOptions,
+    DEFAULT_APPIUM_OPTIONS,
+    RemoteOptions,
+    buildRemoteOptions,
+    readAppVersion,
+} from "./appium.js";
+import { DetectedEvent, DetectorRegistry } from "./detectors.js";
+import { Diagnostics } from "./diagnostics.js";
+import { DeviceUnreachableError, UnexpectedModalError } from "./errors.js";
+import { EventQueue, TrackedEvent } from "./events.js";
+import { Lock, LockOptions } from "./lock.js";
 import { logger } from "./logger.js";
+import {
+    NetworkMetadata,
+    NetworkRegistry,
+    normalizeChainId,
+} from "./networks.js";
+import { RetryPolicy, RetryTimeoutError, retry, waitUntil } from "./retry.js";
+import { Selectors, selectProfile } from "./selectors.js";
+import { Snapshot } from "./snapshot.js";
+import { Tracer } from "./trace.js";
 import { parseUnits } from "./units.js";
+import {
+    WalletOptions,
+    abbreviateAddress,
+    accountName,
+    deriveAddresses,
+} from "./wallet.js";
 import {
     ActivateChain,
+    AddEthereumChain,
+    AddEthereumChainEvent,
     EventMap,
     Glue,
     Report,
@@ -14,8 +44,8 @@ import {
     SignTransaction,
     SignTransactionEvent,
     SwitchEthereumChain,
+    SwitchEthereumChainEvent,
 } from "@wallet-test-framework/glue";
-import process from "node:process";
 import { URL } from "node:url";
 import { Browser, remote } from "webdriverio";
 
@@ -23,293 +53,625 @@ function delay(ms: number): Promise<void> {
     return new Promise((res) => setTimeout(res, ms));
 }
 
-class Lock<T> {
-    private readonly data: T;
-    private readonly queue: (() => Promise<void>)[];
-    private locked: boolean;
+type Event = DetectedEvent;
 
-    constructor(data: T) {
-        this.data = data;
-        this.queue = [];
-        this.locked = false;
-    }
+const log = {
+    watcher: logger.child({ component: "watcher" }),
+    setup: logger.child({ component: "setup" }),
+    action: logger.child({ component: "action" }),
+    glue: logger.child({ component: "glue" }),
+};
 
-    public unsafe(): T {
-        return this.data;
-    }
+type TransactionFields = {
+    from: string;
+    to: string;
+    data: string;
+    value: string;
+};
 
-    public lock<R>(callback: (data: T) => Promise<R>): Promise<R> {
-        if (this.locked) {
-            logger.debug("Queuing");
-            return new Promise<R>((res, rej) => {
-                this.queue.push(() => callback(this.data).then(res).catch(rej));
-            });
-        }
+export const CONNECTION_MODES = ["walletconnect", "in-app-browser"] as const;
+
+/**
+ * How the test dapp reaches MetaMask: through WalletConnect from Chrome, or
+ * with the provider injected by MetaMask's own dapp browser.
+ */
+export type ConnectionMode = (typeof CONNECTION_MODES)[number];
+
+export const WALLET_STATES = ["fresh", "reset", "reuse"] as const;
+
+/**
+ * What setup does with the wallet already on the device:
+ *
+ * - `fresh`: import the wallet, assuming MetaMask has just been installed or
+ *   cleared.
+ * - `reset`: clear MetaMask's data, then import the wallet.
+ * - `reuse`: log in to the wallet MetaMask already has.
+ */
+export type WalletState = (typeof WALLET_STATES)[number];
+
+/**
+ * Packages of browsers the WalletConnect flow has been used with, by a
+ * short name that can be given instead of the package.
+ */
+export const BROWSER_PACKAGES: Readonly<Record<string, string>> = {
+    chrome: "com.android.chrome",
+    firefox: "org.mozilla.firefox",
+    brave: "com.brave.browser",
+    samsung: "com.sec.android.app.sbrowser",
+};
 
-        logger.debug("Locking");
-        this.locked = true;
-        return callback(this.data).finally(() => this.after());
-    }
+/**
+ * How long to wait for MetaMask's connection screen after the dapp's
+ * WalletConnect button is clicked.
+ */
+const HANDOFF_POLICY: Partial<RetryPolicy> = {
+    attempts: Infinity,
+    delay: 500,
+    backoff: 1,
+    deadline: 60000,
+};
 
-    private after() {
-        if (0 === this.queue.length) {
-            logger.debug("Unlocking");
-            this.locked = false;
-        } else {
-            const item = this.queue.shift();
-            logger.debug("Running task", item);
-            if (typeof item === "undefined") {
-                throw new Error("lock queue empty");
-            }
+/**
+ * How long to look for screens MetaMask only shows sometimes.
+ */
+const OPTIONAL_SCREEN_POLICY: Partial<RetryPolicy> = { deadline: 5000 };
+
+/**
+ * Order in which waiting users of the driver get it. Glue actions go ahead
+ * of the watcher's polling, so the test runner isn't kept waiting.
+ */
+const PRIORITY = {
+    watcher: 0,
+    action: 10,
+    stop: 20,
+};
 
-            void item().finally(() => this.after());
-        }
-    }
+/**
+ * Importing the wallet holds the driver throughout, and normally takes
+ * longer than any other step.
+ */
+const SETUP_HOLD_WARNING_MS = 180000;
+
+/**
+ * How long a glue action waits for the driver before failing, instead of
+ * waiting forever behind a step that hangs.
+ */
+const ACTION_LOCK_TIMEOUT_MS = 120000;
+
+export interface MetaMaskAndroidGlueOptions {
+    appium?: Partial<AppiumOptions>;
+    wallet: WalletOptions;
+    selectorProfile?: string;
+
+    /**
+     * Defaults to `fresh`.
+     */
+    walletState?: WalletState;
+
+    /**
+     * How many accounts, derived from the seed phrase, the wallet should
+     * have. Setup creates any that are missing. Defaults to 1.
+     */
+    accounts?: number;
+
+    /**
+     * Defaults to `walletconnect`.
+     */
+    connectionMode?: ConnectionMode;
+
+    /**
+     * Browser to open the dapp in for WalletConnect, as a package name or a
+     * key of `BROWSER_PACKAGES`. Defaults to Chrome.
+     */
+    browser?: string;
+
+    /**
+     * Directory to write a trace of every driver step into, or `undefined`
+     * to disable tracing.
+     */
+    trace?: string;
+
+    /**
+     * Directory to save a screenshot, page source, app state, and logcat
+     * into when a step fails. Without it, failures are only summarized.
+     */
+    artifacts?: string;
+
+    /**
+     * Name, currency symbol and block explorer to give networks added by
+     * `activateChain`. Defaults to `DEFAULT_NETWORK_METADATA`.
+     */
+    network?: Partial<NetworkMetadata>;
+
+    /**
+     * Milliseconds a wallet request waits for a glue action before it is
+     * given up on, and its modal reported again if it's still showing.
+     * Defaults to `DEFAULT_EVENT_TIMEOUT_MS`.
+     */
+    eventTimeout?: number;
+
+    /**
+     * Limits on retrying and waiting for the UI, for every interaction with
+     * MetaMask. Defaults to `DEFAULT_RETRY_POLICY`.
+     */
+    retry?: Partial<RetryPolicy>;
+
+    /**
+     * Forwards loopback RPC URLs given to `activateChain` from the device to
+     * this machine. Closing it is left to the caller.
+     */
+    reverse?: ReversePorts;
+
+    /**
+     * Opens the appium session. Defaults to webdriverio's `remote`, and is
+     * replaced with a fake browser in tests.
+     */
+    connect?: (options: RemoteOptions) => Promise<Browser>;
 }
 
-type Event = {
-    uuid: string;
-};
+/**
+ * The wallet's accounts a connection request offered, and the ones MetaMask
+ * had selected when it was read.
+ */
+interface AccountChoice {
+    offered: readonly string[];
+    selected: readonly string[];
+}
 
 class MetaMaskAndroidDriver {
-    public static readonly PASSWORD = "ethereum1";
-    public static readonly SEED =
-        "basket cradle actor pizza similar liar suffer another all fade flag brave";
-    public static readonly ACCOUNT_1 =
-        "0xb7b4d68047536a87f0926a76dd0b96b3a044c8cf";
-    public readonly capabilities: object;
+    public readonly accounts: readonly string[];
+    private readonly accountChoices = new Map<string, AccountChoice>();
+
+    /**
+     * Networks add network requests proposed, by event ID.
+     */
+    private readonly proposedNetworks = new Map<
+        string,
+        { name: string; chainId: string }
+    >();
+    public readonly networks: NetworkRegistry;
+    private currentChainId: string | null = null;
+    public readonly capabilities: Readonly<Record<string, unknown>>;
+    public readonly selectors: Selectors;
+    private readonly appium: AppiumOptions;
+    private readonly wallet: WalletOptions;
     private readonly driver: Lock<Browser>;
-    private pendingEvent: null | Event = null;
+    private readonly events: EventQueue;
+    private readonly retryPolicy: Partial<RetryPolicy>;
     private running: boolean;
     private windowWatcher: Promise<void>;
     private readonly glue: MetaMaskAndroidGlue;
+    private readonly detectors: DetectorRegistry;
     private lastActive: DOMHighResTimeStamp;
+    private lastHierarchy: string | null = null;
+    private readonly tracer: Tracer | null;
+    private readonly diagnostics: Diagnostics;
+    private stopped: Promise<void> | null = null;
+    private readonly stopping = new AbortController();
 
     private constructor(
         driver: Browser,
         glue: MetaMaskAndroidGlue,
-        caps: object,
+        appium: AppiumOptions,
+        wallet: WalletOptions,
+        accounts: readonly string[],
+        caps: Record<string, unknown>,
+        selectors: Selectors,
+        detectors: DetectorRegistry,
+        tracer: Tracer | null,
+        diagnostics: Diagnostics,
+        networks: NetworkRegistry,
+        events: EventQueue,
+        retry: Partial<RetryPolicy>,
     ) {
+        this.events = events;
+        this.retryPolicy = retry;
         this.driver = new Lock(driver);
+        this.tracer = tracer;
+        this.diagnostics = diagnostics;
+        this.selectors = selectors;
+        this.appium = appium;
+        this.wallet = wallet;
+        this.accounts = accounts;
+        this.networks = networks;
         this.running = true;
         this.windowWatcher = this.watchWindows();
         this.glue = glue;
+        this.detectors = detectors;
+        this.registerDetectors();
         this.capabilities = caps;
         this.lastActive = performance.now();
     }
 
     public static async create(
         glue: MetaMaskAndroidGlue,
+        options: MetaMaskAndroidGlueOptions,
+        tracer: Tracer | null,
     ): Promise<MetaMaskAndroidDriver> {
-        // TODO: Pass-through all the appium stuff.
-        const capabilities = {
-            platformName: "Android",
-            "appium:automationName": "UiAutomator2",
-            "appium:newCommandTimeout": 120,
-        };
-
-        const bundleCapabilities = {
-            ...capabilities,
-            "appium:appPackage": "io.metamask",
-            "appium:appActivity": ".MainActivity",
-        };
+        const count = options.accounts ?? 1;
+        if (!Number.isInteger(count) || count < 1) {
+            throw new Error(`can't set up ${count} accounts`);
+        }
 
-        const options = {
-            hostename: "localhost",
-            port: 4723,
-            capabilities: bundleCapabilities,
-        };
+        const appium = { ...DEFAULT_APPIUM_OPTIONS, ...options.appium };
+        if (options.walletState === "reuse") {
+            // Without it, appium clears MetaMask's data as the session starts.
+            appium.capabilities = {
+                "appium:noReset": true,
+                ...appium.capabilities,
+            };
+        }
+        const remoteOptions = buildRemoteOptions(appium);
+        const connect = options.connect ?? remote;
+        let driver;
+        try {
+            driver = await connect(remoteOptions);
+        } catch (e) {
+            throw new DeviceUnreachableError(
+                `couldn't start a session with appium at ${appium.url}`,
+                e,
+            );
+        }
 
-        const driver = await remote(options);
+        let profile;
+        try {
+            await driver.setTimeout({ implicit: 10000 });
 
-        await driver.setTimeout({ implicit: 10000 });
+            const version = await readAppVersion(driver, appium.appPackage);
+            profile = selectProfile(version, options.selectorProfile);
+            log.setup.info(
+                `MetaMask ${version ?? "(unknown version)"}, using selector profile ${profile.name}`,
+            );
+        } catch (e) {
+            // Nothing else holds the session yet to end it.
+            try {
+                await driver.deleteSession();
+            } catch (deleteError) {
+                log.setup.warn("couldn't end the appium session:", deleteError);
+            }
+            throw e;
+        }
 
-        return new MetaMaskAndroidDriver(driver, glue, capabilities);
+        return new MetaMaskAndroidDriver(
+            driver,
+            glue,
+            appium,
+            options.wallet,
+            deriveAddresses(options.wallet.seed, count),
+            remoteOptions.capabilities,
+            profile.selectors,
+            glue.detectors,
+            tracer,
+            new Diagnostics(options.artifacts ?? null, appium.appPackage),
+            new NetworkRegistry(options.network),
+            new EventQueue(options.eventTimeout),
+            options.retry ?? {},
+        );
     }
 
     private async activateApp(driver: Browser): Promise<void> {
+        const { appPackage, appActivity } = this.appium;
+        const activity = appActivity.startsWith(".")
+            ? `${appPackage}${appActivity}`
+            : appActivity;
         await driver.executeScript("mobile: startActivity", [
-            { intent: "io.metamask/io.metamask.MainActivity" },
+            { intent: `${appPackage}/${activity}` },
         ]);
     }
 
-    public async unlockWithPassword(driver: Browser): Promise<void> {
-        const passwordTxt = await driver.$(
-            '//android.widget.EditText[@resource-id="login-password-input"]',
-        );
-        let retries = 2;
-        let exception = null;
+    private queryAppState(driver: Browser): Promise<number> {
+        return driver.executeScript("mobile: queryAppState", [
+            { appId: this.appium.appPackage },
+        ]);
+    }
 
-        while (retries) {
-            const appState: number = await driver.executeScript(
-                "mobile: queryAppState",
-                [{ appId: "io.metamask" }],
-            );
+    /**
+     * `retry` under this session's policy, overridden by `policy`.
+     */
+    private withRetry<T>(
+        step: string,
+        callback: (attempt: number) => Promise<T>,
+        policy: Partial<RetryPolicy> = {},
+    ): Promise<T> {
+        return retry(step, callback, { ...this.retryPolicy, ...policy });
+    }
 
-            if (4 !== appState) {
-                // The app is not in the foreground.
-                this.activateApp(driver);
-            }
+    /**
+     * `waitUntil` under this session's policy, overridden by `policy`.
+     */
+    private waitFor(
+        step: string,
+        condition: (attempt: number) => Promise<boolean>,
+        policy: Partial<RetryPolicy> = {},
+    ): Promise<void> {
+        return waitUntil(step, condition, { ...this.retryPolicy, ...policy });
+    }
 
-            try {
-                await passwordTxt.clearValue();
-                await passwordTxt.addValue(MetaMaskAndroidDriver.PASSWORD);
-                exception = null;
-                break;
-            } catch (e) {
-                if (await passwordTxt.isExisting()) {
-                    retries -= 1;
-                    exception = e;
-                } else {
-                    return;
-                }
+    /**
+     * Whether `selector` shows up within a few seconds, for screens MetaMask
+     * only shows sometimes.
+     */
+    private async appears(
+        driver: Browser,
+        step: string,
+        selector: string,
+    ): Promise<boolean> {
+        try {
+            await this.waitFor(
+                step,
+                () => driver.$(selector).isExisting(),
+                OPTIONAL_SCREEN_POLICY,
+            );
+            return true;
+        } catch (e) {
+            if (e instanceof RetryTimeoutError) {
+                return false;
             }
+            throw e;
         }
+    }
 
-        if (exception) {
-            throw exception;
-        }
+    /**
+     * Click `selector` until it goes away, for buttons that sometimes
+     * ignore the first tap.
+     */
+    private clickUntilGone(
+        driver: Browser,
+        step: string,
+        selector: string,
+    ): Promise<void> {
+        const element = driver.$(selector);
+        return this.waitFor(step, async () => {
+            if (!(await element.isExisting())) {
+                return true;
+            }
+            await element.click();
+            return false;
+        });
+    }
+
+    public async unlockWithPassword(driver: Browser): Promise<void> {
+        const passwordTxt = await driver.$(this.selectors.unlock.passwordInput);
+
+        const locked = await this.withRetry(
+            "unlock",
+            async () => {
+                const appState = await this.queryAppState(driver);
+
+                if (4 !== appState) {
+                    // The app is not in the foreground.
+                    await this.activateApp(driver);
+                }
 
-        const unlockBtn = await driver.$(
-            '//android.widget.Button[@content-desc="UNLOCK"]',
+                try {
+                    await passwordTxt.clearValue();
+                    await passwordTxt.addValue(this.wallet.password);
+                    return true;
+                } catch (e) {
+                    if (await passwordTxt.isExisting()) {
+                        throw e;
+                    }
+                    // Already unlocked.
+                    return false;
+                }
+            },
+            { attempts: 2 },
         );
 
-        while (await unlockBtn.isExisting()) {
-            await unlockBtn.click();
+        if (locked) {
+            await this.clickUntilGone(
+                driver,
+                "unlock",
+                this.selectors.unlock.unlockButton,
+            );
         }
     }
 
     private async emitRequestAccounts(driver: Browser): Promise<Event> {
-        logger.debug("emitting requestaccounts");
+        log.watcher.debug("reading requestaccounts");
 
-        const editBtn = await driver.$(
-            '(//android.widget.TextView[@text="Edit"])[1]',
-        );
+        const editBtn = await driver.$(this.selectors.connectAccount.edit);
         await editBtn.click();
 
-        // XXX: MetaMask doesn't display the full address anywhere in this
-        //      dialog, so we check for the address the seed phrase would
-        //      create and return that.
-        const account = await driver.$(
-            '//android.widget.TextView[@text="0xb7B4...C8Cf"]',
+        const choice = this.readAccountChoice(
+            Snapshot.parse(await driver.getPageSource()),
         );
 
-        if (!(await account.isExisting())) {
+        if (choice.offered.length === 0) {
             throw new Error("couldn't find account in request accounts");
         }
 
-        const backBtn = await driver.$(
-            '//android.view.ViewGroup[@resource-id="sheet-header-back-button"]',
-        );
+        const backBtn = await driver.$(this.selectors.connectAccount.back);
         await backBtn.click();
 
         const uuid = crypto.randomUUID();
+        this.accountChoices.set(uuid, choice);
 
         this.glue.emit(
             "requestaccounts",
             new RequestAccountsEvent(uuid, {
-                accounts: [MetaMaskAndroidDriver.ACCOUNT_1],
+                accounts: [...choice.offered],
             }),
         );
 
-        return { uuid };
+        return { uuid, modal: "connect-account" };
     }
 
-    private async emitSendTransaction(driver: Browser): Promise<Event> {
-        logger.debug("emitting sendtransaction");
+    /**
+     * Read which of the wallet's accounts the edit screen of a connection
+     * request lists, and which are selected.
+     */
+    private readAccountChoice(snapshot: Snapshot): AccountChoice {
+        const selectors = this.selectors.connectAccount;
+        const offered = [];
+        const selected = [];
+
+        // XXX: MetaMask doesn't display full addresses anywhere in this
+        //      dialog, so accounts are recognized by the abbreviated
+        //      addresses the seed phrase's accounts would have.
+        for (const address of this.accounts) {
+            const short = abbreviateAddress(address);
+            if (!snapshot.exists(selectors.account(short))) {
+                continue;
+            }
 
-        let data;
-        try {
-            await driver
-                .$('//android.view.ViewGroup[@content-desc="View Data"]')
-                .click();
+            offered.push(address);
+            if (
+                snapshot.attribute(selectors.row(short), "checked") === "true"
+            ) {
+                selected.push(address);
+            }
+        }
+
+        const shown = snapshot.select(selectors.addresses).length;
+        if (shown > offered.length) {
+            log.watcher.warn(
+                `${shown - offered.length} of the accounts in the request aren't among the ${this.accounts.length} derived from the seed phrase, so they aren't reported`,
+            );
+        }
+
+        return { offered, selected };
+    }
+
+    /**
+     * Select exactly `accounts` in the connection request `uuid`, changing
+     * the selection only if MetaMask's differs.
+     */
+    public async selectAccounts(
+        driver: Browser,
+        uuid: string,
+        accounts: readonly string[],
+    ): Promise<void> {
+        const choice = this.accountChoices.get(uuid);
+        if (choice === undefined) {
+            throw new Error(`bug: no accounts were read for request ${uuid}`);
+        }
+
+        const wanted = new Set(accounts.map((a) => a.toLowerCase()));
+        if (wanted.size === 0) {
+            throw new Error("at least one account must be connected");
+        }
+        for (const account of wanted) {
+            if (!choice.offered.includes(account)) {
+                throw new Error(`account ${account} isn't in the request`);
+            }
+        }
+
+        const unchanged =
+            wanted.size === choice.selected.length &&
+            choice.selected.every((a) => wanted.has(a));
+        if (unchanged) {
+            return;
+        }
+
+        const selectors = this.selectors.connectAccount;
+        await driver.$(selectors.edit).click();
+
+        for (const account of choice.offered) {
+            if (wanted.has(account) !== choice.selected.includes(account)) {
+                await driver
+                    .$(selectors.row(abbreviateAddress(account)))
+                    .click();
+            }
+        }
+
+        await driver.$(selectors.update).click();
+    }
 
-            data = await driver
-                .$(
-                    '//android.widget.TextView[@text="Hex data: "]/following-sibling::*//*[starts-with(@text, "0x")]',
-                )
-                .getAttribute("text");
+    /**
+     * Read the fields of a transaction confirmation. `title` is the heading
+     * MetaMask shows above the amount, which differs between sending and
+     * signing.
+     */
+    private async readTransaction(
+        driver: Browser,
+        title: string,
+    ): Promise<TransactionFields> {
+        const selectors = this.selectors.transaction;
+
+        // Transactions without data don't offer to show it.
+        let data = "0x";
+        if (await driver.$(selectors.viewData).isExisting()) {
+            await driver.$(selectors.viewData).click();
 
-            await driver
-                .$('//android.view.ViewGroup[@content-desc="\uF3CF"]')
-                .click();
-        } catch (_) {
-            data = "0x";
+            data = await driver.$(selectors.hexData).getAttribute("text");
+
+            await driver.$(selectors.closeData).click();
         }
 
+        const snapshot = Snapshot.parse(await driver.getPageSource());
+
         const to = driver
-            .$('//android.view.ViewGroup[@resource-id="add-address-button"]')
+            .$(selectors.recipient)
             .getAttribute("content-desc")
             .then((text) => text.split(",")[0])
-            .catch(() =>
-                driver
-                    .$(
-                        '//android.widget.TextView[@text="To:"]/following-sibling::*//*[@text="Account 1"]',
-                    )
-                    .isExisting()
-                    .then((exists) =>
-                        exists ? MetaMaskAndroidDriver.ACCOUNT_1 : "0x",
-                    ),
-            );
+            .catch(() => this.findAccount(snapshot, selectors.toAccount));
 
-        // TODO: This finds "Account 1" in the "To" address as well.
-        const from = driver
-            .$('//android.widget.TextView[@text="Account 1"]')
-            .isExisting()
-            // MetaMask doesn't display the full from address on the modal.
-            .then((exists) =>
-                exists ? MetaMaskAndroidDriver.ACCOUNT_1 : "0x",
-            );
+        // MetaMask doesn't display the full from address on the modal.
+        const from = this.findAccount(snapshot, selectors.fromAccount);
 
         const value = driver
-            .$(
-                '//*[@resource-id="account-balance"]/parent::*//*[@text="Confirm"]/following-sibling::*[@text]',
-            )
+            .$(selectors.value(title))
             .getAttribute("text")
             .then((text) => text.split(" ")[0])
             .then((text) => parseUnits(text.trim(), 18))
             .then((big) => big.toString());
 
-        const uuid = crypto.randomUUID();
-        const event = {
-            from: await from,
+        return {
+            from,
             to: await to,
             data,
             value: await value,
         };
+    }
+
+    /**
+     * The wallet account `selector` finds on screen by its name or
+     * abbreviated address, or `0x` if it finds none.
+     */
+    private findAccount(
+        snapshot: Snapshot,
+        selector: (name: string, short: string) => string,
+    ): string {
+        const found = this.accounts.find((address, index) =>
+            snapshot.exists(
+                selector(accountName(index), abbreviateAddress(address)),
+            ),
+        );
+        return found ?? "0x";
+    }
+
+    private async emitSendTransaction(driver: Browser): Promise<Event> {
+        log.watcher.debug("reading sendtransaction");
+
+        const event = await this.readTransaction(driver, "Confirm");
+
+        const uuid = crypto.randomUUID();
         this.glue.emit(
             "sendtransaction",
             new SendTransactionEvent(uuid, event),
         );
-        return { uuid };
+        return { uuid, modal: "send-transaction" };
     }
 
-    private async emitSignTransaction(
-        driver: Browser,
-        handle: string,
-    ): Promise<void> {
-        logger.debug("emitting signtransaction");
+    private async emitSignTransaction(driver: Browser): Promise<Event> {
+        log.watcher.debug("reading signtransaction");
 
-        throw new Error("emitSignTransaction: not implemented");
+        const event = await this.readTransaction(driver, "Sign");
 
+        const uuid = crypto.randomUUID();
         this.glue.emit(
             "signtransaction",
-            new SignTransactionEvent(handle, {
-                from: "TODO",
-                to: "TODO",
-                data: "",
-                value: "TODO",
-            }),
+            new SignTransactionEvent(uuid, event),
         );
+        return { uuid, modal: "sign-transaction" };
     }
 
     private async emitSignMessage(driver: Browser): Promise<Event> {
-        logger.debug("emitting signmessage");
+        log.watcher.debug("reading signmessage");
 
         const message = await driver
-            .$(
-                '//android.widget.TextView[@text="Message:"]/following-sibling::android.widget.TextView[@text]',
-            )
+            .$(this.selectors.personalSign.message)
             .getAttribute("text")
             .then((text) => text.trim());
 
@@ -320,72 +682,311 @@ class MetaMaskAndroidDriver {
                 message,
             }),
         );
-        return { uuid };
+        return { uuid, modal: "personal-sign" };
     }
 
-    private isPersonalSignModal(driver: Browser): Promise<boolean> {
-        return driver
-            .$(
-                '//android.view.ViewGroup[@resource-id="personal-signature-request"]',
-            )
-            .isExisting();
+    /**
+     * Collect the label/value rows matched by `xpath` into an object. Labels
+     * end with a colon, and the value is the text that follows them.
+     */
+    private async readRows(
+        driver: Browser,
+        xpath: string,
+    ): Promise<Record<string, string>> {
+        const texts = await driver
+            .$$(xpath)
+            .map((el) => el.getAttribute("text"));
+
+        const rows: Record<string, string> = {};
+        for (let ii = 0; ii < texts.length - 1; ii++) {
+            const label = texts[ii].trim();
+            if (!label.endsWith(":")) {
+                continue;
+            }
+            rows[label.slice(0, -1)] = texts[ii + 1].trim();
+            ii += 1;
+        }
+
+        return rows;
+    }
+
+    private async emitSignTypedData(driver: Browser): Promise<Event> {
+        log.watcher.debug("reading signmessage (typed data)");
+
+        const selectors = this.selectors.typedSign;
+
+        const domain = await this.readRows(driver, selectors.domain);
+
+        const primaryType = await driver
+            .$(selectors.primaryType)
+            .getAttribute("text")
+            .then((text) => text.trim());
+
+        const message = await this.readRows(driver, selectors.message);
+
+        const uuid = crypto.randomUUID();
+        this.glue.emit(
+            "signmessage",
+            new SignMessageEvent(uuid, {
+                message: JSON.stringify({ domain, primaryType, message }),
+            }),
+        );
+        return { uuid, modal: "typed-sign" };
+    }
+
+    private async emitSwitchEthereumChain(
+        driver: Browser,
+    ): Promise<Event | null> {
+        log.watcher.debug("reading switchethereumchain");
+
+        // MetaMask only shows the name of the network being switched to.
+        const name = await driver
+            .$(this.selectors.switchNetwork.networkName)
+            .getAttribute("text")
+            .then((text) => text.trim());
+
+        const chainId = this.networks.chainIdOf(name);
+        if (chainId === undefined) {
+            // Like a network added before this session, or a built-in one
+            // MetaMask has renamed.
+            log.watcher.warn(
+                `can't report a switch to unknown network "${name}", so it's left unanswered`,
+            );
+            return null;
+        }
+
+        const uuid = crypto.randomUUID();
+        this.glue.emit(
+            "switchethereumchain",
+            new SwitchEthereumChainEvent(uuid, { chainId }),
+        );
+        return { uuid, modal: "switch-network" };
     }
 
-    private async isSendTransactionModal(driver: Browser): Promise<boolean> {
-        const pill = await driver.$(
-            '//android.view.ViewGroup[@resource-id="APPROVAL_TAG_URL_ORIGIN_PILL"]',
+    private async emitAddEthereumChain(driver: Browser): Promise<Event | null> {
+        log.watcher.debug("reading addethereumchain");
+
+        const field = (label: string): Promise<string> =>
+            driver
+                .$(this.selectors.addNetwork.field(label))
+                .getAttribute("text")
+                .then((text) => text.trim());
+
+        const chainName = await field("Network name");
+        const rpcUrl = await field("Network URL");
+        // Probably shown in decimal.
+        const shown = await field("Chain ID");
+        let chainId;
+        try {
+            chainId = normalizeChainId(shown);
+        } catch (e) {
+            log.watcher.warn(
+                `can't report adding a network with chain ID "${shown}", so it's left unanswered:`,
+                e,
+            );
+            return null;
+        }
+        const symbol = await field("Currency symbol");
+        const explorer = await field("Block explorer URL").catch(() => null);
+
+        const uuid = crypto.randomUUID();
+        this.glue.emit(
+            "addethereumchain",
+            new AddEthereumChainEvent(uuid, {
+                chainId,
+                chainName,
+                rpcUrls: [rpcUrl],
+                blockExplorerUrls: explorer ? [explorer] : [],
+                nativeCurrency: {
+                    name: symbol,
+                    symbol,
+                    decimals: 18,
+                },
+            }),
         );
-        const pillExists = pill.isExisting();
 
-        const toExists = driver
-            .$('//android.widget.TextView[@text="To:"]')
-            .isExisting();
+        this.proposedNetworks.set(uuid, { name: chainName, chainId });
+        return { uuid, modal: "add-network" };
+    }
+
+    /**
+     * Remember the network proposed by the add network request `uuid`,
+     * once it has been approved.
+     */
+    public networkAdded(uuid: string): void {
+        const network = this.proposedNetworks.get(uuid);
+        if (network !== undefined) {
+            this.networks.register(network.name, network.chainId);
+        }
+    }
+
+    private isTypedSignModal(snapshot: Snapshot): boolean {
+        return snapshot.exists(this.selectors.typedSign.container);
+    }
+
+    private isSwitchEthereumChainModal(snapshot: Snapshot): boolean {
+        return snapshot.exists(this.selectors.switchNetwork.title);
+    }
+
+    private isAddEthereumChainModal(snapshot: Snapshot): boolean {
+        return snapshot.exists(this.selectors.addNetwork.title);
+    }
+
+    private isPersonalSignModal(snapshot: Snapshot): boolean {
+        return snapshot.exists(this.selectors.personalSign.container);
+    }
 
-        return (await pillExists) && (await toExists);
+    private isTransactionModal(snapshot: Snapshot): boolean {
+        return (
+            snapshot.exists(this.selectors.transaction.originPill) &&
+            snapshot.exists(this.selectors.transaction.to)
+        );
     }
 
-    private async isConnectAccountModal(driver: Browser): Promise<boolean> {
-        const connectAccountModal = await driver.$(
-            '//android.view.ViewGroup[@resource-id="permission-network-permissions-container"]',
+    private isSendTransactionModal(snapshot: Snapshot): boolean {
+        return (
+            this.isTransactionModal(snapshot) &&
+            snapshot.exists(this.selectors.transaction.confirm)
         );
+    }
 
-        return await connectAccountModal.isExisting();
+    /**
+     * Sign-only requests (`eth_signTransaction`) use the same confirmation
+     * screen as sending, except the approve button reads "Sign".
+     */
+    private isSignTransactionModal(snapshot: Snapshot): boolean {
+        return (
+            this.isTransactionModal(snapshot) &&
+            snapshot.exists(this.selectors.transaction.sign)
+        );
     }
 
-    private async event(driver: Browser): Promise<Event | null> {
-        await this.unlockWithPassword(driver);
+    private isConnectAccountModal(snapshot: Snapshot): boolean {
+        return snapshot.exists(this.selectors.connectAccount.container);
+    }
+
+    private async event(driver: Browser, snapshot: Snapshot): Promise<void> {
+        if (snapshot.exists(this.selectors.unlock.passwordInput)) {
+            log.watcher.info("unlocking wallet");
+            await this.tracer?.capture(
+                driver,
+                "detect",
+                "unlock",
+                undefined,
+                snapshot.source,
+            );
+
+            // The next tick sees the unlocked hierarchy.
+            await this.unlockWithPassword(driver);
+            return;
+        }
+
+        const detector = this.detectors.match(snapshot);
+        if (!detector) {
+            return;
+        }
+
+        if (this.events.front?.modal === detector.name) {
+            // Still showing the request the test runner hasn't answered.
+            return;
+        }
+
+        log.watcher.info(`detected ${detector.name}`);
+        await this.tracer?.capture(
+            driver,
+            "detect",
+            detector.name,
+            undefined,
+            snapshot.source,
+        );
+
+        const event = this.events.detect(detector.name);
+        let emitted;
+        try {
+            emitted = await detector.emit(driver);
+        } catch (e) {
+            this.events.abandon(event);
+            throw e;
+        }
+
+        if (emitted === null) {
+            this.events.abandon(event);
+            return;
+        }
+        this.events.emitted(event, emitted.uuid);
+    }
+
+    /**
+     * Give up on requests nobody answered, so their modals are reported
+     * again if MetaMask is still showing them.
+     */
+    private expireEvents(): void {
+        for (const event of this.events.expire()) {
+            log.watcher
+                .child({ event: event.uuid ?? undefined })
+                .warn(`no action answered ${event.modal}, expiring it`);
+            this.tracer?.note("event", "expired", {
+                uuid: event.uuid,
+                modal: event.modal,
+            });
+            this.lastHierarchy = null;
+        }
+    }
 
-        // Do all the checks simultaneously to save time.
-        const eventHandlers = [
+    private registerDetectors(): void {
+        const builtin = [
+            {
+                name: "connect-account",
+                specificity: 1,
+                detect: (snap: Snapshot) => this.isConnectAccountModal(snap),
+                emit: (b: Browser) => this.emitRequestAccounts(b),
+            },
             {
-                active: this.isConnectAccountModal(driver),
-                handler: (b: Browser) => this.emitRequestAccounts(b),
+                name: "send-transaction",
+                specificity: 3,
+                detect: (snap: Snapshot) => this.isSendTransactionModal(snap),
+                emit: (b: Browser) => this.emitSendTransaction(b),
             },
             {
-                active: this.isSendTransactionModal(driver),
-                handler: (b: Browser) => this.emitSendTransaction(b),
+                name: "sign-transaction",
+                specificity: 3,
+                detect: (snap: Snapshot) => this.isSignTransactionModal(snap),
+                emit: (b: Browser) => this.emitSignTransaction(b),
             },
             {
-                active: this.isPersonalSignModal(driver),
-                handler: (b: Browser) => this.emitSignMessage(b),
+                name: "personal-sign",
+                specificity: 1,
+                detect: (snap: Snapshot) => this.isPersonalSignModal(snap),
+                emit: (b: Browser) => this.emitSignMessage(b),
+            },
+            {
+                name: "typed-sign",
+                specificity: 1,
+                detect: (snap: Snapshot) => this.isTypedSignModal(snap),
+                emit: (b: Browser) => this.emitSignTypedData(b),
+            },
+            {
+                name: "switch-network",
+                specificity: 1,
+                detect: (snap: Snapshot) =>
+                    this.isSwitchEthereumChainModal(snap),
+                emit: (b: Browser) => this.emitSwitchEthereumChain(b),
+            },
+            {
+                name: "add-network",
+                specificity: 1,
+                detect: (snap: Snapshot) => this.isAddEthereumChainModal(snap),
+                emit: (b: Browser) => this.emitAddEthereumChain(b),
             },
         ];
 
-        let handler = null;
-
-        for (const pair of eventHandlers) {
-            if (await pair.active) {
-                if (handler) {
-                    throw Error("bug: multiple event emitters triggered");
-                }
-                handler = pair.handler;
+        for (const detector of builtin) {
+            // Downstream code can replace a built-in detector by registering
+            // one with the same name before the driver starts.
+            if (this.detectors.names.includes(detector.name)) {
+                continue;
             }
-        }
-
-        if (handler) {
-            return await handler(driver);
-        } else {
-            return null;
+            this.detectors.register({ priority: 0, ...detector });
         }
     }
 
@@ -393,16 +994,9 @@ class MetaMaskAndroidDriver {
         try {
             while (this.running) {
                 await delay(500);
+                this.expireEvents();
 
-                if (this.pendingEvent) {
-                    continue;
-                }
-
-                const appState: number = await this.driver
-                    .unsafe()
-                    .executeScript("mobile: queryAppState", [
-                        { appId: "io.metamask" },
-                    ]);
+                const appState = await this.queryAppState(this.driver.unsafe());
 
                 const now = performance.now();
 
@@ -413,390 +1007,954 @@ class MetaMaskAndroidDriver {
                         // Need to flip back to the app every so often to check
                         // for events.
                         this.lastActive = now; // Prevent spamming.
-                        await this.driver.lock(async (driver) => {
-                            await this.activateApp(driver);
-                        });
+                        await this.traced("lock", "activateApp", (driver) =>
+                            this.activateApp(driver),
+                        );
                     }
                     continue;
                 }
 
                 this.lastActive = now;
 
-                await this.driver.lock(async (driver) => {
-                    this.pendingEvent = await this.event(driver);
-                });
+                await this.driver.lock(
+                    async (driver) => {
+                        try {
+                            // Fetch the hierarchy once, and evaluate every
+                            // detector against it locally.
+                            const source = await driver.getPageSource();
+                            const hash = Snapshot.hash(source);
+
+                            if (hash === this.lastHierarchy) {
+                                return;
+                            }
+
+                            this.lastHierarchy = hash;
+                            await this.event(driver, Snapshot.parse(source));
+                        } catch (e) {
+                            throw await this.diagnostics.collect(
+                                driver,
+                                "watchWindows",
+                                e,
+                            );
+                        }
+                    },
+                    {
+                        fields: { task: "watchWindows" },
+                        priority: PRIORITY.watcher,
+                        signal: this.stopping.signal,
+                    },
+                );
             }
         } catch (e) {
-            console.error(e);
-            process.exit(1);
+            if (this.stopping.signal.aborted) {
+                // Stopped while waiting for the driver; nothing failed.
+                return;
+            }
+
+            // Failures under the lock have already been collected.
+            const failure = await this.diagnostics.collect(
+                this.driver.unsafe(),
+                "watchWindows",
+                e,
+            );
+
+            try {
+                await this.stop();
+            } catch (e) {
+                log.watcher.warn("couldn't end the appium session:", e);
+            }
+
+            this.glue.fail(failure);
         }
     }
 
-    public lock<T>(
+    /**
+     * Run `callback` while holding the driver, recording it in the trace
+     * under `name` when tracing is enabled. Failures are collected while the
+     * lock is still held, so the artifacts show the screen that caused them.
+     */
+    private traced<T>(
+        kind: "lock" | "action",
+        name: string,
         callback: (wb: Browser) => Promise<T>,
-        event_uuid?: string,
+        options: LockOptions = {},
     ): Promise<T> {
-        let promise = this.driver.lock(callback);
-        if (event_uuid !== undefined) {
-            promise = promise.finally(() => {
-                if (event_uuid !== this.pendingEvent?.uuid) {
-                    throw new Error(
-                        "bug: pending event doesn't match executed event",
+        return this.driver.lock(
+            async (driver) => {
+                try {
+                    if (!this.tracer) {
+                        return await callback(driver);
+                    }
+                    return await this.tracer.span(driver, kind, name, () =>
+                        callback(driver),
                     );
+                } catch (e) {
+                    throw await this.diagnostics.collect(driver, name, e);
                 }
-                this.pendingEvent = null;
-            });
-        }
-        return promise;
+            },
+            {
+                signal: this.stopping.signal,
+                ...options,
+                fields: { task: name, ...options.fields },
+            },
+        );
     }
 
-    public async setup(): Promise<void> {
-        await this.driver.lock(async (driver) => {
-            // Get through the intro screen.
-            try {
-                const getStartedBtn = await driver.$(
-                    '//android.widget.Button[@content-desc="Get started"]',
-                );
-                await getStartedBtn.waitForExist();
-                await getStartedBtn.click();
-            } catch (e) {}
-
-            // Wait for and click the Import Wallet button.
-            const importWalletBtn = await driver.$(
-                '//android.widget.Button[@content-desc="wallet-setup-screen-import-from-seed-button-id"]',
-            );
-            await importWalletBtn.waitForExist();
-            await importWalletBtn.click();
+    public lock<T>(
+        name: string,
+        callback: (wb: Browser) => Promise<T>,
+        event_uuid?: string,
+    ): Promise<T> {
+        const fields = { action: name, event: event_uuid };
+        const actionLog = log.action.child(fields);
+
+        actionLog.info("requested");
+        return this.traced(
+            "action",
+            name,
+            async (driver) => {
+                // Claimed under the lock, since the watcher only records the
+                // event once the detector that emitted it returns.
+                let event: TrackedEvent | null = null;
+                if (event_uuid !== undefined) {
+                    try {
+                        event = this.events.claim(event_uuid);
+                    } catch (e) {
+                        if (e instanceof UnexpectedModalError) {
+                            throw new UnexpectedModalError(
+                                `${name}: ${e.message}`,
+                            );
+                        }
+                        throw e;
+                    }
+                }
 
-            // Deny Metrics
-            const denyBtn = await driver.$(
-                '//android.widget.Button[@content-desc="No thanks"]',
-            );
-            await denyBtn.click();
+                let result;
+                try {
+                    result = await callback(driver);
+                } catch (e) {
+                    if (event !== null) {
+                        this.events.release(event);
+                        this.lastHierarchy = null;
+                    }
+                    throw e;
+                }
 
-            try {
-                const scrollBtn = await driver.$(
-                    '//android.view.ViewGroup[@resource-id="terms-of-use-scroll-end-arrow-button-id"]',
-                );
-                await scrollBtn.click();
+                if (event !== null) {
+                    this.events.resolve(event);
+                    // The next request may look exactly like this one, so
+                    // the watcher mustn't skip the screen as already seen.
+                    this.lastHierarchy = null;
+                }
+                actionLog.info("done");
+                return result;
+            },
+            {
+                fields,
+                priority: PRIORITY.action,
+                timeout: ACTION_LOCK_TIMEOUT_MS,
+            },
+        );
+    }
 
-                const termsBtn = await driver.$(
-                    '//android.view.ViewGroup[@resource-id="terms-of-use-checkbox"]',
-                );
-                await termsBtn.click();
+    /**
+     * The kind of modal that produced the event `uuid`.
+     */
+    public modalFor(uuid: string): string | undefined {
+        return this.events.get(uuid)?.modal;
+    }
 
-                const agreeBtn = await driver.$(
-                    '//android.widget.Button[@content-desc="Accept"]',
-                );
-                await agreeBtn.waitForEnabled();
-                await agreeBtn.click();
-            } catch (e) {}
+    /**
+     * The chain MetaMask was last seen on, or `null` if it hasn't been read
+     * yet.
+     */
+    public get chainId(): string | null {
+        return this.currentChainId;
+    }
 
-            // Enter the seed phrase.
-            const showBtn = await driver.$(
-                '(//android.view.ViewGroup[@content-desc="Show"])[1]',
-            );
-            await showBtn.click();
+    /**
+     * Read the selected network from the wallet's main screen, and remember
+     * its chain ID.
+     */
+    public async readChainId(driver: Browser): Promise<string> {
+        const name = await driver
+            .$(this.selectors.networks.current)
+            .getAttribute("text")
+            .then((text) => text.trim());
 
-            const seedTextView = await driver.$(
-                '//android.widget.EditText[@text="Enter your Secret Recovery Phrase"]',
-            );
-            await seedTextView.clearValue();
-            await seedTextView.addValue(MetaMaskAndroidDriver.SEED);
+        const chainId = this.networks.chainIdOf(name);
+        if (chainId === undefined) {
+            throw new Error(`wallet is on unknown network "${name}"`);
+        }
 
-            const newPw = await driver.$(
-                '//android.widget.EditText[@resource-id="create-password-first-input-field"]',
-            );
-            await newPw.clearValue();
-            await newPw.addValue(MetaMaskAndroidDriver.PASSWORD);
+        this.currentChainId = chainId;
+        return chainId;
+    }
 
-            const confirmPw = await driver.$(
-                '//android.widget.EditText[@resource-id="create-password-second-input-field"]',
+    /**
+     * Like `readChainId`, but logs a warning instead of throwing when the
+     * main screen isn't showing or its network is unknown.
+     */
+    public async noteChainId(driver: Browser): Promise<void> {
+        try {
+            log.action.info(
+                `wallet is on chain ${await this.readChainId(driver)}`,
             );
-            await confirmPw.clearValue();
-            await confirmPw.addValue(MetaMaskAndroidDriver.PASSWORD);
+        } catch (e) {
+            // Whatever it was before, it may have changed.
+            this.currentChainId = null;
+            log.action.warn("couldn't read the wallet's chain:", e);
+        }
+    }
 
-            const fingerprintSwitch = await driver.$(
-                //'//android.widget.Switch[@resource-id="login-with-biometrics-switch"]',
-                "//android.widget.Switch",
+    /**
+     * Open `url` in MetaMask's dapp browser. MetaMask's deep links always
+     * load the page over https.
+     */
+    public async openInAppBrowser(driver: Browser, url: string): Promise<void> {
+        const target = new URL(url);
+        if (target.protocol !== "https:") {
+            throw new Error(
+                `MetaMask's browser can only be opened on https:// URLs, not ${url}`,
             );
-            await fingerprintSwitch.click();
+        }
 
-            const importBtn = await driver.$(
-                '//android.widget.Button[@content-desc="import-from-seed-screen-submit-button-id"]',
-            );
-            await importBtn.click();
+        const link = `metamask://dapp/${target.href.slice("https://".length)}`;
+        await driver.executeScript("mobile: deepLink", [
+            { url: link, package: this.appium.appPackage },
+        ]);
+    }
+
+    /**
+     * Open `url` in `browserPackage`, start WalletConnect, and get through
+     * whichever wallet chooser appears until MetaMask's connection screen is
+     * showing.
+     */
+    public async openWithWalletConnect(
+        driver: Browser,
+        url: string,
+        browserPackage: string,
+    ): Promise<void> {
+        const selectors = this.selectors.launch;
+
+        await driver.executeScript("mobile: deepLink", [
+            { url, package: browserPackage },
+        ]);
+
+        let connectClicked = false;
+
+        const step = `waiting for MetaMask's connection screen after launching ${browserPackage}`;
+        await this.waitFor(
+            step,
+            async () => {
+                const snapshot = Snapshot.parse(await driver.getPageSource());
+
+                if (snapshot.exists(this.selectors.connectAccount.container)) {
+                    log.action.info("MetaMask connection screen is open");
+                    return true;
+                }
+
+                if (snapshot.exists(this.selectors.unlock.passwordInput)) {
+                    // MetaMask was opened, but is locked.
+                    await this.unlockWithPassword(driver);
+                } else if (snapshot.exists(selectors.resolverList)) {
+                    if (!snapshot.exists(selectors.resolverMetamask)) {
+                        throw new Error(
+                            "Android offered to open the WalletConnect link, but not with MetaMask",
+                        );
+                    }
+                    log.action.debug("choosing MetaMask in the intent picker");
+                    await driver.$(selectors.resolverMetamask).click();
+
+                    const once = await driver.$(selectors.resolverOnce);
+                    if (await once.isExisting()) {
+                        await once.click();
+                    }
+                } else if (snapshot.exists(selectors.metamask)) {
+                    log.action.debug("choosing MetaMask in the wallet list");
+                    await driver.$(selectors.metamask).click();
+                } else if (snapshot.exists(selectors.selectWallet)) {
+                    await driver.$(selectors.selectWallet).click();
+                } else if (
+                    !connectClicked &&
+                    snapshot.exists(selectors.walletConnect)
+                ) {
+                    await driver.$(selectors.walletConnect).click();
+                    connectClicked = true;
+                }
+
+                return false;
+            },
+            HANDOFF_POLICY,
+        );
+    }
+
+    public async openNetworksMenu(driver: Browser): Promise<void> {
+        const openNetBtn = await driver.$(this.selectors.networks.open);
+        await openNetBtn.click();
+    }
+
+    /**
+     * Add a network for `chainId` through "Add a custom network". If MetaMask
+     * says the chain ID is already used, backs out without adding anything
+     * and resolves to the name of the network using it.
+     */
+    public async addNetwork(
+        driver: Browser,
+        chainId: string,
+        rpcUrl: string,
+    ): Promise<string | null> {
+        const selectors = this.selectors.networks;
+        const metadata = this.networks.metadataFor(chainId);
+
+        await this.openNetworksMenu(driver);
+
+        const addBtn = await driver.$(selectors.addCustom);
+        await addBtn.click();
+
+        const nameEdit = await driver.$(selectors.name);
+        await nameEdit.addValue(metadata.name);
+
+        const chainIdEdit = await driver.$(selectors.chainId);
+        // Sometimes MetaMask is fast enough to populate this field.
+        await this.withRetry("entering the chain ID", async () => {
+            await chainIdEdit.clearValue();
+            await chainIdEdit.addValue(chainId);
+        });
+
+        const inUse = await driver.$(selectors.chainIdInUse);
+        if (await inUse.isExisting()) {
+            const warning = await inUse.getAttribute("text");
+            const match = /used by the (.+) network/.exec(warning);
+            if (!match) {
+                throw new Error(`unexpected chain ID warning "${warning}"`);
+            }
+            await driver.back();
+            return match[1];
+        }
+
+        await this.addRpcUrl(driver, rpcUrl);
+
+        const symbolEdit = await driver.$(selectors.symbol);
+        await symbolEdit.addValue(metadata.symbol);
+
+        const explorerDrop = await driver.$(selectors.explorerMenu);
+        await explorerDrop.click();
+
+        const addExplorerBtn = await driver.$(selectors.addExplorer);
+        await addExplorerBtn.click();
+
+        const explorerEdit = await driver.$(selectors.explorerUrl);
+        await explorerEdit.addValue(metadata.explorer);
+
+        const confirmExplorerBtn = await driver.$(selectors.confirmExplorer);
+        await confirmExplorerBtn.click();
+
+        await this.saveNetwork(driver);
+        this.networks.register(metadata.name, chainId);
+        return null;
+    }
+
+    /**
+     * Point the existing network `name` at `rpcUrl`, by adding it as a new
+     * RPC URL, which MetaMask then selects.
+     */
+    public async editNetwork(
+        driver: Browser,
+        name: string,
+        rpcUrl: string,
+    ): Promise<void> {
+        const selectors = this.selectors.networks;
+
+        await this.openNetworksMenu(driver);
+
+        const optionsBtn = await driver.$(selectors.options(name));
+        await optionsBtn.click();
+
+        const editBtn = await driver.$(selectors.edit);
+        await editBtn.click();
+
+        await this.addRpcUrl(driver, rpcUrl);
+        await this.saveNetwork(driver);
+    }
+
+    private async addRpcUrl(driver: Browser, rpcUrl: string): Promise<void> {
+        const selectors = this.selectors.networks;
+
+        const rpcDrop = await driver.$(selectors.rpcMenu);
+        await rpcDrop.click();
+
+        const addRpcBtn = await driver.$(selectors.addRpc);
+        await addRpcBtn.click();
+
+        const urlEdit = await driver.$(selectors.rpcUrl);
+        await urlEdit.addValue(rpcUrl);
+
+        const confirmRpcBtn = await driver.$(selectors.confirmRpc);
+        await confirmRpcBtn.click();
+    }
+
+    private async saveNetwork(driver: Browser): Promise<void> {
+        await this.clickUntilGone(
+            driver,
+            "saving the network",
+            this.selectors.networks.confirmNetwork,
+        );
+
+        await this.unlockWithPassword(driver);
+    }
+
+    /**
+     * Switch the wallet to the network `name`, dismissing the explainer
+     * MetaMask shows the first time a network is used.
+     */
+    public async selectNetwork(driver: Browser, name: string): Promise<void> {
+        const selectors = this.selectors.networks;
+
+        await this.openNetworksMenu(driver);
+
+        const networkMenu = await driver.$(selectors.select(name));
+        await networkMenu.click();
+
+        const eduBtn = await driver.$(selectors.educationClose);
+        if (await eduBtn.isExisting()) {
+            await eduBtn.click();
+        }
+    }
 
-            const doneBtn = await driver.$(
-                '//android.widget.Button[@content-desc="Done"]',
+    public async setup(state: WalletState): Promise<void> {
+        log.setup.info(
+            state === "reuse" ? "logging in to the wallet" : "importing wallet",
+        );
+        await this.traced(
+            "lock",
+            "setup",
+            async (driver) => {
+                if (state === "reuse") {
+                    await this.logIn(driver);
+                } else {
+                    if (state === "reset") {
+                        await this.clearAppData(driver);
+                    }
+                    await this.importWallet(driver);
+                }
+
+                await this.addAccounts(driver);
+                await this.verifyAccount(driver);
+            },
+            { holdWarning: SETUP_HOLD_WARNING_MS },
+        );
+        log.setup.info("wallet ready");
+    }
+
+    private async clearAppData(driver: Browser): Promise<void> {
+        log.setup.info("clearing MetaMask's data");
+        await driver.executeScript("mobile: clearApp", [
+            { appId: this.appium.appPackage },
+        ]);
+        await this.activateApp(driver);
+    }
+
+    private async importWallet(driver: Browser): Promise<void> {
+        const selectors = this.selectors.onboarding;
+
+        // Get through the intro screen.
+        if (await this.appears(driver, "intro", selectors.getStarted)) {
+            await driver.$(selectors.getStarted).click();
+        }
+
+        // Wait for and click the Import Wallet button.
+        const importWalletBtn = await driver.$(selectors.importFromSeed);
+        await importWalletBtn.waitForExist();
+        await importWalletBtn.click();
+
+        // Deny Metrics
+        const denyBtn = await driver.$(selectors.denyMetrics);
+        await denyBtn.click();
+
+        // Newer releases ask to accept the terms of use.
+        if (await this.appears(driver, "terms", selectors.termsScrollEnd)) {
+            const scrollBtn = await driver.$(selectors.termsScrollEnd);
+            await scrollBtn.click();
+
+            const termsBtn = await driver.$(selectors.termsCheckbox);
+            await termsBtn.click();
+
+            const agreeBtn = await driver.$(selectors.termsAccept);
+            await agreeBtn.waitForEnabled();
+            await agreeBtn.click();
+        }
+
+        // Enter the seed phrase.
+        const showBtn = await driver.$(selectors.showSeed);
+        await showBtn.click();
+
+        const seedTextView = await driver.$(selectors.seedInput);
+        await seedTextView.clearValue();
+        await seedTextView.addValue(this.wallet.seed);
+
+        const newPw = await driver.$(selectors.newPassword);
+        await newPw.clearValue();
+        await newPw.addValue(this.wallet.password);
+
+        const confirmPw = await driver.$(selectors.confirmPassword);
+        await confirmPw.clearValue();
+        await confirmPw.addValue(this.wallet.password);
+
+        const fingerprintSwitch = await driver.$(selectors.biometricsSwitch);
+        await fingerprintSwitch.click();
+
+        const importBtn = await driver.$(selectors.importSubmit);
+        await importBtn.click();
+
+        const doneBtn = await driver.$(selectors.done);
+        await doneBtn.click();
+
+        await this.clickUntilGone(
+            driver,
+            "dismissing the security reminder",
+            selectors.noThanks,
+        );
+    }
+
+    /**
+     * Create the accounts the wallet is missing, then select the first one.
+     * MetaMask derives new accounts from the seed phrase in order, so only
+     * the ones it already has need counting.
+     */
+    private async addAccounts(driver: Browser): Promise<void> {
+        if (this.accounts.length === 1) {
+            // Every wallet has its first account.
+            return;
+        }
+
+        const selectors = this.selectors.accounts;
+        await driver.$(selectors.open).click();
+        await driver.$(selectors.add).waitForExist();
+
+        const snapshot = Snapshot.parse(await driver.getPageSource());
+        let existing = 0;
+        while (
+            existing < this.accounts.length &&
+            snapshot.exists(
+                selectors.account(abbreviateAddress(this.accounts[existing])),
+            )
+        ) {
+            existing++;
+        }
+
+        for (let index = existing; index < this.accounts.length; index++) {
+            if (index > existing) {
+                await driver.$(selectors.open).click();
+            }
+            log.setup.info(`creating ${accountName(index)}`);
+            await driver.$(selectors.add).click();
+            await driver.$(selectors.create).click();
+        }
+
+        // Creating an account selects it.
+        if (existing < this.accounts.length) {
+            await driver.$(selectors.open).click();
+        }
+        await driver
+            .$(selectors.account(abbreviateAddress(this.accounts[0])))
+            .click();
+    }
+
+    /**
+     * Get into the wallet MetaMask already has, unlocking it if needed.
+     */
+    private async logIn(driver: Browser): Promise<void> {
+        if ((await this.queryAppState(driver)) !== 4) {
+            await this.activateApp(driver);
+        }
+
+        const { unlock, wallet, onboarding } = this.selectors;
+        const snapshot = await this.withRetry(
+            "finding the existing wallet",
+            async () => {
+                const snapshot = Snapshot.parse(await driver.getPageSource());
+                const known = [
+                    unlock.passwordInput,
+                    wallet.home,
+                    onboarding.getStarted,
+                    onboarding.importFromSeed,
+                ];
+                if (!known.some((selector) => snapshot.exists(selector))) {
+                    throw new Error(
+                        "MetaMask isn't showing its lock, wallet or onboarding screen",
+                    );
+                }
+                return snapshot;
+            },
+        );
+
+        if (
+            snapshot.exists(onboarding.getStarted) ||
+            snapshot.exists(onboarding.importFromSeed)
+        ) {
+            throw new Error("MetaMask has no wallet to reuse");
+        }
+
+        if (snapshot.exists(unlock.passwordInput)) {
+            await this.unlockWithPassword(driver);
+        }
+    }
+
+    /**
+     * Check that the account the wallet shows is the first one derived from
+     * the seed phrase, when the wallet's home screen is showing.
+     */
+    private async verifyAccount(driver: Browser): Promise<void> {
+        const expected = abbreviateAddress(this.accounts[0]);
+        const snapshot = Snapshot.parse(await driver.getPageSource());
+        const shown = snapshot.attribute(this.selectors.wallet.address, "text");
+
+        if (shown === null) {
+            log.setup.warn(
+                `couldn't read the wallet's account to check that it is ${expected}`,
             );
-            await doneBtn.click();
+            return;
+        }
 
-            const secBtn = await driver.$(
-                '//android.widget.Button[@content-desc="No thanks"]',
+        if (shown.toLowerCase() !== expected.toLowerCase()) {
+            throw new Error(
+                `the wallet's account is ${shown}, but the seed phrase's first account is ${expected}`,
             );
-            while (await secBtn.isExisting()) {
-                try {
-                    await secBtn.click();
-                } catch (_) {}
-            }
-        });
+        }
+
+        log.setup.info(`using account ${expected}`);
     }
 
-    async stop(): Promise<void> {
-        this.running = false;
-        await this.driver.lock(async (driver) => {
-            await driver.deleteSession();
-        });
+    /**
+     * End the appium session. Safe to call more than once.
+     */
+    stop(): Promise<void> {
+        if (this.stopped === null) {
+            this.running = false;
+            this.tracer?.note("lock", "stop");
+            // Anything still waiting for the driver would find it gone.
+            this.stopping.abort(new Error("the appium session has ended"));
+            this.stopped = this.deleteSession();
+        }
+        return this.stopped;
+    }
+
+    private async deleteSession(): Promise<void> {
+        try {
+            await this.driver.lock((driver) => driver.deleteSession(), {
+                fields: { task: "stop" },
+                priority: PRIORITY.stop,
+            });
+        } finally {
+            await this.tracer?.close();
+        }
     }
 }
 
 export class MetaMaskAndroidGlue extends Glue {
     private static async buildDriver(
         glue: MetaMaskAndroidGlue,
+        options: MetaMaskAndroidGlueOptions,
     ): Promise<MetaMaskAndroidDriver> {
-        const metamask = await MetaMaskAndroidDriver.create(glue);
-        await metamask.setup();
+        if (options.trace !== undefined) {
+            glue.tracer = await Tracer.create(options.trace);
+        }
+
+        const metamask = await MetaMaskAndroidDriver.create(
+            glue,
+            options,
+            glue.tracer,
+        );
+        try {
+            await metamask.setup(options.walletState ?? "fresh");
+        } catch (e) {
+            try {
+                await metamask.stop();
+            } catch (stopError) {
+                log.setup.warn("couldn't end the appium session:", stopError);
+            }
+            throw e;
+        }
         return metamask;
     }
 
     private readonly driver;
+    public readonly detectors: DetectorRegistry;
     public readonly reportReady: Promise<Report>;
     private readonly resolveReport: (report: Report) => unknown;
+    private readonly rejectReport: (reason: unknown) => unknown;
+    private tracer: Tracer | null = null;
+    private readonly reverse: ReversePorts | null;
+    private readonly connectionMode: ConnectionMode;
+    private readonly browserPackage: string;
 
-    constructor() {
+    constructor(options: MetaMaskAndroidGlueOptions) {
         super();
-        this.driver = MetaMaskAndroidGlue.buildDriver(this);
-
-        let resolveReport;
-        this.reportReady = new Promise((res) => {
+        const browser = options.browser ?? "chrome";
+        this.browserPackage = BROWSER_PACKAGES[browser] ?? browser;
+        this.connectionMode = options.connectionMode ?? "walletconnect";
+        this.reverse = options.reverse ?? null;
+        this.detectors = new DetectorRegistry();
+        this.driver = MetaMaskAndroidGlue.buildDriver(this, options);
+
+        let resolveReport, rejectReport;
+        this.reportReady = new Promise((res, rej) => {
             resolveReport = res;
+            rejectReport = rej;
         });
 
-        if (!resolveReport) {
+        if (!resolveReport || !rejectReport) {
             throw new Error("Promise didn't assign resolve function");
         }
 
         this.resolveReport = resolveReport;
+        this.rejectReport = rejectReport;
+
+        // Embedders that never wait for the report shouldn't be brought down
+        // by an unhandled rejection.
+        this.reportReady.catch(() => undefined);
+        this.driver.catch((e) => this.fail(e));
     }
 
-    async launch(url: string): Promise<void> {
-        const cb = await this.driver;
-        await cb.lock(async (driver) => {
-            await driver.executeScript("mobile: deepLink", [
-                {
-                    url: url,
-                    package: "com.android.chrome",
-                },
-            ]);
+    /**
+     * Give up on the run, rejecting `reportReady` with `error`. Called when
+     * the driver can no longer make progress.
+     */
+    public fail(error: unknown): void {
+        this.rejectReport(error);
+    }
 
-            const wcBtn = await driver.$(
-                '//android.widget.Button[@resource-id="walletConnect"]',
-            );
-            await wcBtn.click();
+    /**
+     * End the appium session without waiting for a report.
+     */
+    public async close(): Promise<void> {
+        let driver;
+        try {
+            driver = await this.driver;
+        } catch {
+            // Setup failed, and already cleaned up after itself.
+            return;
+        }
 
-            const allWalletsBtn = await driver.$(
-                '//android.widget.Button[@text="Select Wallet"]',
-            );
-            await allWalletsBtn.click();
+        try {
+            await driver.stop();
+        } catch (e) {
+            // Likely the device is gone, which whatever failed has reported.
+            log.glue.warn("couldn't end the appium session:", e);
+        }
+    }
 
-            // TODO: This works on my phone because I have two wallets. Need to fix this for phones with only one wallet.
-            const selectWallet = await driver.$(
-                '//android.widget.TextView[@text="MetaMask"]',
+    async launch(url: string): Promise<void> {
+        const cb = await this.driver;
+
+        if (this.connectionMode === "in-app-browser") {
+            await cb.lock("launch", (driver) =>
+                cb.openInAppBrowser(driver, url),
             );
-            await selectWallet.click();
-        });
-    }
+            return;
+        }
 
-    async openNetworksMenu(driver: Browser): Promise<void> {
-        const openNetBtn = await driver.$(
-            '//android.view.ViewGroup[@resource-id="open-networks-button"]',
+        await cb.lock("launch", (driver) =>
+            cb.openWithWalletConnect(driver, url, this.browserPackage),
         );
-        await openNetBtn.click();
     }
 
     override async activateChain(action: ActivateChain): Promise<void> {
         const cb = await this.driver;
-        const chainName = `Test Chain ${action.chainId}`;
-        await cb.lock(async (driver) => {
-            await cb.unlockWithPassword(driver);
-            await this.openNetworksMenu(driver);
-
-            const addBtn = await driver.$(
-                '//android.widget.Button[@content-desc="Add a custom network"]',
-            );
-            await addBtn.click();
+        const chainId = normalizeChainId(action.chainId);
+        const { rpcUrl } = action;
 
-            const nameEdit = await driver.$(
-                '//android.widget.EditText[@resource-id="input-network-name"]',
-            );
-            await nameEdit.addValue(chainName);
+        await this.reverse?.forwardUrl(rpcUrl, `the RPC of chain ${chainId}`);
+        await cb.lock("activateChain", async (driver) => {
+            await cb.unlockWithPassword(driver);
 
-            const chainIdEdit = await driver.$(
-                '//android.widget.EditText[@resource-id="input-chain-id"]',
-            );
-            while (true) {
-                try {
-                    await chainIdEdit.clearValue();
-                    await chainIdEdit.addValue(action.chainId);
-                    break;
-                } catch (_) {
-                    // Sometimes MetaMask is fast enough to populate this field.
+            const configured = cb.networks.configuredFor(chainId);
+            const known = cb.networks.nameOf(chainId);
+            let name: string;
+
+            if (configured?.rpcUrl === rpcUrl) {
+                name = configured.name;
+                log.action.info(`reusing network "${name}"`);
+            } else if (known !== undefined) {
+                name = known;
+                log.action.info(`updating the RPC URL of network "${name}"`);
+                await cb.editNetwork(driver, name, rpcUrl);
+            } else {
+                const existing = await cb.addNetwork(driver, chainId, rpcUrl);
+                if (existing === null) {
+                    name = cb.networks.metadataFor(chainId).name;
+                } else {
+                    // Added outside this session, so only MetaMask knew.
+                    name = existing;
+                    log.action.info(
+                        `chain ${chainId} is already added as "${name}", updating its RPC URL`,
+                    );
+                    cb.networks.register(name, chainId);
+                    await cb.editNetwork(driver, name, rpcUrl);
                 }
             }
 
-            const rpcDrop = await driver.$(
-                '//android.view.ViewGroup[@resource-id="drop-down-rpc-menu"]',
-            );
-            await rpcDrop.click();
-
-            const addRpcBtn = await driver.$(
-                '//android.widget.Button[@content-desc="Add RPC URL"]',
-            );
-            await addRpcBtn.click();
-
-            const urlEdit = await driver.$(
-                '//android.widget.EditText[@resource-id="input-rpc-url"]',
-            );
-            await urlEdit.addValue(action.rpcUrl);
-
-            const confirmRpcBtn = await driver.$(
-                '//android.widget.Button[@resource-id="add-rpc-button"]',
-            );
-            await confirmRpcBtn.click();
-
-            const symbolEdit = await driver.$(
-                '//android.widget.EditText[@resource-id="input-network-symbol"]',
-            );
-            await symbolEdit.addValue("TETH");
-
-            const explorerDrop = await driver.$(
-                '//android.view.ViewGroup[@resource-id="drop-down-block-explorer-menu"]',
-            );
-            await explorerDrop.click();
-
-            const addExplorerBtn = await driver.$(
-                '//android.widget.Button[@content-desc="Add Block Explorer URL"]',
-            );
-            await addExplorerBtn.click();
-
-            const explorerEdit = await driver.$(
-                '//android.widget.EditText[@resource-id="block-explorer"]',
-            );
-            await explorerEdit.addValue("https://example.com/");
-
-            const confirmExplorerBtn = await driver.$(
-                '//android.widget.Button[@resource-id="add-block-explorer-button"]',
-            );
-            await confirmExplorerBtn.click();
-
-            const confirmNetBtn = await driver.$(
-                '//android.widget.Button[@resource-id="add-custom-network-button"]',
-            );
-            while (await confirmNetBtn.isExisting()) {
-                try {
-                    await confirmNetBtn.click();
-                } catch (_) {}
+            if (cb.chainId !== chainId) {
+                await cb.selectNetwork(driver, name);
             }
 
-            await cb.unlockWithPassword(driver);
-
-            await this.openNetworksMenu(driver);
-
-            const testChainMenu = await driver.$(
-                `//android.widget.TextView[@text="${chainName}"]/ancestor::*[@resource-id="select-with-menu"]`,
-            );
-            await testChainMenu.click();
-
-            const eduBtn = await driver.$(
-                '//android.widget.Button[@content-desc="network-education-modal-close-button"]',
+            cb.networks.record({ chainId, name, rpcUrl });
+            log.action.info(
+                `wallet is on chain ${await cb.readChainId(driver)}`,
             );
-            await eduBtn.click();
         });
     }
 
     override async requestAccounts(action: RequestAccounts): Promise<void> {
         const cb = await this.driver;
-        await cb.lock(async (driver) => {
-            let btnXpath =
-                '//android.view.ViewGroup[@resource-id="permission-network-permissions-container"]/following-sibling::';
-            if (action.action === "reject") {
-                btnXpath +=
-                    'android.widget.Button[@content-desc="cancel-button"]';
-            } else if (action.action === "approve") {
-                btnXpath +=
-                    'android.widget.Button[@content-desc="connect-button"]';
-            } else {
-                throw new Error("requestAccounts: not implemented");
-            }
+        await cb.lock(
+            "requestAccounts",
+            async (driver) => {
+                let btnXpath;
+                if (action.action === "reject") {
+                    btnXpath = cb.selectors.connectAccount.cancel;
+                } else if (action.action === "approve") {
+                    await cb.selectAccounts(driver, action.id, action.accounts);
+                    btnXpath = cb.selectors.connectAccount.connect;
+                } else {
+                    throw new Error("requestAccounts: not implemented");
+                }
 
-            let btn = await driver.$(btnXpath);
-            await btn.click();
-        }, action.id);
+                let btn = await driver.$(btnXpath);
+                await btn.click();
+            },
+            action.id,
+        );
     }
 
     override async signMessage(action: SignMessage): Promise<void> {
         const cb = await this.driver;
-        await cb.lock(async (driver) => {
-            let btnXpath;
-            if (action.action === "reject") {
-                btnXpath =
-                    '//android.widget.Button[@content-desc="request-signature-cancel-button"]';
-            } else if (action.action === "approve") {
-                btnXpath =
-                    '//android.widget.Button[@content-desc="request-signature-confirm-button"]';
-            } else {
-                throw new Error("signMessage: not implemented");
-            }
+        await cb.lock(
+            "signMessage",
+            async (driver) => {
+                // Typed data requests have their own screen with different
+                // buttons from personal_sign.
+                const selectors =
+                    cb.modalFor(action.id) === "typed-sign"
+                        ? cb.selectors.typedSign
+                        : cb.selectors.personalSign;
+
+                let btnXpath;
+                if (action.action === "reject") {
+                    btnXpath = selectors.cancel;
+                } else if (action.action === "approve") {
+                    btnXpath = selectors.confirm;
+                } else {
+                    throw new Error("signMessage: not implemented");
+                }
 
-            await driver.$(btnXpath).click();
-        }, action.id);
+                await driver.$(btnXpath).click();
+            },
+            action.id,
+        );
     }
 
     override async sendTransaction(action: SendTransaction): Promise<void> {
         const cb = await this.driver;
-        await cb.lock(async (driver) => {
-            let btn;
-            if (action.action === "reject") {
-                btn = driver.$(
-                    '//android.widget.Button[@content-desc="Reject"]',
-                );
-            } else if (action.action === "approve") {
-                btn = driver.$(
-                    '//android.widget.Button[@content-desc="Confirm"]',
-                );
-            } else {
-                throw new Error("sendTransaction: not implemented");
-            }
-            await btn.click();
-        }, action.id);
+        await cb.lock(
+            "sendTransaction",
+            async (driver) => {
+                let btn;
+                if (action.action === "reject") {
+                    btn = driver.$(cb.selectors.transaction.reject);
+                } else if (action.action === "approve") {
+                    btn = driver.$(cb.selectors.transaction.confirm);
+                } else {
+                    throw new Error("sendTransaction: not implemented");
+                }
+                await btn.click();
+            },
+            action.id,
+        );
     }
 
     override async signTransaction(action: SignTransaction): Promise<void> {
         const cb = await this.driver;
-        await cb.lock(async (driver) => {
-            throw new Error("signTransaction: not implemented");
-        }, action.id);
+        await cb.lock(
+            "signTransaction",
+            async (driver) => {
+                let btn;
+                if (action.action === "reject") {
+                    btn = driver.$(cb.selectors.transaction.reject);
+                } else if (action.action === "approve") {
+                    btn = driver.$(cb.selectors.transaction.sign);
+                } else {
+                    throw new Error("signTransaction: not implemented");
+                }
+                await btn.click();
+            },
+            action.id,
+        );
     }
 
-    // TODO: Remove eslint comment after implementing.
-    // eslint-disable-next-line @typescript-eslint/require-await
     override async switchEthereumChain(
-        _action: SwitchEthereumChain,
+        action: SwitchEthereumChain,
     ): Promise<void> {
-        throw new Error("cb - switchEthereumChain not implemented");
+        const cb = await this.driver;
+        await cb.lock(
+            "switchEthereumChain",
+            async (driver) => {
+                let btn;
+                if (action.action === "reject") {
+                    btn = driver.$(cb.selectors.switchNetwork.cancel);
+                } else if (action.action === "approve") {
+                    btn = driver.$(cb.selectors.switchNetwork.approve);
+                } else {
+                    throw new Error("switchEthereumChain: not implemented");
+                }
+                await btn.click();
+
+                await cb.unlockWithPassword(driver);
+            },
+            action.id,
+        );
+
+        // Only once the request is resolved, since the answer stands even
+        // when the chain can't be read.
+        await cb.lock("readChainId", (driver) => cb.noteChainId(driver));
+    }
+
+    override async addEthereumChain(action: AddEthereumChain): Promise<void> {
+        const cb = await this.driver;
+        await cb.lock(
+            "addEthereumChain",
+            async (driver) => {
+                let btn;
+                if (action.action === "reject") {
+                    btn = driver.$(cb.selectors.addNetwork.cancel);
+                } else if (action.action === "approve") {
+                    btn = driver.$(cb.selectors.addNetwork.approve);
+                } else {
+                    throw new Error("addEthereumChain: not implemented");
+                }
+                await btn.click();
+
+                if (action.action === "approve") {
+                    cb.networkAdded(action.id);
+                }
+            },
+            action.id,
+        );
     }
 
-    // eslint-disable-next-line @typescript-eslint/require-await
     override async report(action: Report): Promise<void> {
-        await (await this.driver).stop();
+        // The test page's report stands even if the session won't end.
         this.resolveReport(action);
+        await this.close();
     }
 
     public emit<E extends keyof EventMap>(
         type: E,
         ...ev: Parameters<EventMap[E]>
     ): void {
+        log.glue.child({ event: ev[0].id }).info(`emitting ${type}`);
+        this.tracer?.note("event", type, ev[0]);
         super.emit(type, ...ev);
     }
 }
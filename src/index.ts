@@ -1,30 +1,194 @@
-import { MetaMaskAndroidGlue } from "./glue.js";
-import { logger } from "./logger.js";
-import serveGlue, { ServeResult } from "@wallet-test-framework/glue-ws";
+import { ReversePorts, listDevices } from "./adb.js";
+import {
+    AppiumOptions,
+    forDevice,
+    parseCapability,
+    readAppiumConfig,
+} from "./appium.js";
+import { StepFailure } from "./diagnostics.js";
+import {
+    EXIT_CODES,
+    InterruptedError,
+    ReportTimeoutError,
+    categorize,
+} from "./errors.js";
+import { DEFAULT_EVENT_TIMEOUT_MS } from "./events.js";
+import {
+    CONNECTION_MODES,
+    ConnectionMode,
+    MetaMaskAndroidGlue,
+    MetaMaskAndroidGlueOptions,
+    WALLET_STATES,
+    WalletState,
+} from "./glue.js";
+import {
+    LOG_FORMATS,
+    LOG_LEVELS,
+    LogFormat,
+    LogLevel,
+    configureLogger,
+    logger,
+    withLogFields,
+} from "./logger.js";
+import { DEFAULT_NETWORK_METADATA } from "./networks.js";
+import {
+    DeviceReport,
+    REPORT_FORMATS,
+    ReportFormat,
+    combineReports,
+    writeReport,
+} from "./report.js";
+import { DEFAULT_RETRY_POLICY } from "./retry.js";
+import {
+    DEFAULT_GLUE_SERVER_OPTIONS,
+    GlueServerOptions,
+    close,
+    glueUrl,
+    listen,
+} from "./server.js";
+import { resolveWalletOptions } from "./wallet.js";
+import { Report } from "@wallet-test-framework/glue";
+import serveGlue from "@wallet-test-framework/glue-ws";
 import meow from "meow";
+import { join } from "node:path";
 import * as process from "node:process";
 
+export {
+    BROWSER_PACKAGES,
+    CONNECTION_MODES,
+    MetaMaskAndroidGlue,
+    WALLET_STATES,
+} from "./glue.js";
+export type {
+    ConnectionMode,
+    MetaMaskAndroidGlueOptions,
+    WalletState,
+} from "./glue.js";
+export { DetectorRegistry } from "./detectors.js";
+export type { DetectedEvent, Detector } from "./detectors.js";
+export { Snapshot } from "./snapshot.js";
+export { StepFailure } from "./diagnostics.js";
+export {
+    DeviceUnreachableError,
+    EXIT_CODES,
+    InterruptedError,
+    ReportTimeoutError,
+    UnexpectedModalError,
+    categorize,
+} from "./errors.js";
+export type { FailureCategory } from "./errors.js";
+export {
+    DEFAULT_EVENT_TIMEOUT_MS,
+    EVENT_STATES,
+    EventQueue,
+} from "./events.js";
+export type { EventState, TrackedEvent } from "./events.js";
+export { Logger, configureLogger, logger, withLogFields } from "./logger.js";
+export { ReversePorts, listDevices } from "./adb.js";
+export {
+    DEFAULT_NETWORK_METADATA,
+    NetworkRegistry,
+    normalizeChainId,
+} from "./networks.js";
+export type { ConfiguredNetwork, NetworkMetadata } from "./networks.js";
+export {
+    DEFAULT_RETRY_POLICY,
+    RetryTimeoutError,
+    retry,
+    waitUntil,
+} from "./retry.js";
+export type { RetryPolicy } from "./retry.js";
+export {
+    DEVICES_FORMAT,
+    combineReports,
+    formatReport,
+    readResults,
+    writeReport,
+} from "./report.js";
+export type { DeviceReport, ReportFormat, TestResult } from "./report.js";
+export type { LogFields, LogFormat, LogLevel, LogRecord } from "./logger.js";
+
 async function serve(
     baseUrl: string,
     implementation: MetaMaskAndroidGlue,
-    serveResult: ServeResult,
+    glueUrl: string,
 ): Promise<void> {
-    let glueUrl: string;
-
-    if (typeof serveResult.address === "string") {
-        throw new Error("not implemented"); // TODO
-    } else {
-        const host =
-            serveResult.address.family === "IPv6" ? "[::1]" : "127.0.0.1";
-        glueUrl = `ws://${host}:3001/`;
-    }
-
     const parsedUrl = new URL(baseUrl);
     parsedUrl.hash = `#glue=${glueUrl}`;
 
     await implementation.launch(parsedUrl.toString());
 }
 
+/**
+ * Wait for `promise`, giving up after `seconds`. Zero waits forever.
+ */
+function reportWithin<T>(promise: Promise<T>, seconds: number): Promise<T> {
+    if (seconds <= 0) {
+        return promise;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const expired = new Promise<never>((_, reject) => {
+        timer = setTimeout(
+            () => reject(new ReportTimeoutError(seconds)),
+            seconds * 1000,
+        );
+    });
+
+    return Promise.race([promise, expired]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Reject with the reason `signal` is aborted with. Never settles otherwise.
+ */
+function aborted(signal?: AbortSignal): Promise<never> {
+    const promise = new Promise<never>((_, reject) => {
+        const abort = () => {
+            const reason: unknown = signal?.reason;
+            reject(reason instanceof Error ? reason : new Error("stopped"));
+        };
+        if (signal?.aborted) {
+            abort();
+        } else {
+            signal?.addEventListener("abort", abort, { once: true });
+        }
+    });
+    // Only ever raced against the run.
+    promise.catch(() => undefined);
+    return promise;
+}
+
+/**
+ * Abort the returned signal on SIGINT or SIGTERM, so runs unwind through
+ * their cleanup instead of leaving sessions and forwarding behind. A second
+ * signal exits at once.
+ */
+function stopOnSignals(): { signal: AbortSignal; dispose: () => void } {
+    const controller = new AbortController();
+    const signals = ["SIGINT", "SIGTERM"] as const;
+
+    const stop = (signal: NodeJS.Signals) => {
+        if (controller.signal.aborted) {
+            process.exit(EXIT_CODES.interrupted);
+        }
+        logger.warn(`${signal} received, cleaning up`);
+        controller.abort(new InterruptedError(signal));
+    };
+
+    for (const signal of signals) {
+        process.on(signal, stop);
+    }
+
+    return {
+        signal: controller.signal,
+        dispose: () => {
+            for (const signal of signals) {
+                process.off(signal, stop);
+            }
+        },
+    };
+}
+
 export async function main(args: string[]): Promise<void> {
     const cli = meow({
         argv: args.slice(2),
@@ -34,29 +198,424 @@ export async function main(args: string[]): Promise<void> {
                 type: "string",
                 default: "https://wallet-test-framework.herokuapp.com/",
             },
+            glueHost: {
+                type: "string",
+            },
+            gluePort: {
+                type: "number",
+                default: DEFAULT_GLUE_SERVER_OPTIONS.port,
+            },
+            glueSocket: {
+                type: "string",
+            },
+            glueUrl: {
+                type: "string",
+            },
+            connectionMode: {
+                type: "string",
+                choices: [...CONNECTION_MODES],
+                default: "walletconnect",
+            },
+            browser: {
+                type: "string",
+                default: "chrome",
+            },
+            adbReverse: {
+                type: "boolean",
+                default: true,
+            },
+            networkName: {
+                type: "string",
+                default: DEFAULT_NETWORK_METADATA.name,
+            },
+            networkSymbol: {
+                type: "string",
+                default: DEFAULT_NETWORK_METADATA.symbol,
+            },
+            networkExplorer: {
+                type: "string",
+                default: DEFAULT_NETWORK_METADATA.explorer,
+            },
+            appiumConfig: {
+                type: "string",
+            },
+            appiumUrl: {
+                type: "string",
+            },
+            udid: {
+                type: "string",
+            },
+            device: {
+                type: "string",
+                isMultiple: true,
+                default: [],
+            },
+            allDevices: {
+                type: "boolean",
+                default: false,
+            },
+            newCommandTimeout: {
+                type: "number",
+            },
+            appPackage: {
+                type: "string",
+            },
+            appActivity: {
+                type: "string",
+            },
+            capability: {
+                type: "string",
+                isMultiple: true,
+                default: [],
+            },
+            seed: {
+                type: "string",
+            },
+            password: {
+                type: "string",
+            },
+            walletState: {
+                type: "string",
+                choices: [...WALLET_STATES],
+                default: "fresh",
+            },
+            accounts: {
+                type: "number",
+                default: 1,
+            },
+            selectorProfile: {
+                type: "string",
+            },
+            trace: {
+                type: "string",
+            },
+            artifacts: {
+                type: "string",
+                default: "artifacts",
+            },
+            reportTimeout: {
+                type: "number",
+                default: 3600,
+            },
+            uiTimeout: {
+                type: "number",
+                default: DEFAULT_RETRY_POLICY.deadline / 1000,
+            },
+            eventTimeout: {
+                type: "number",
+                default: DEFAULT_EVENT_TIMEOUT_MS / 1000,
+            },
+            logLevel: {
+                type: "string",
+                choices: [...LOG_LEVELS],
+                default: "info",
+            },
+            output: {
+                type: "string",
+            },
+            format: {
+                type: "string",
+                choices: [...REPORT_FORMATS],
+                default: "raw",
+            },
+            logFormat: {
+                type: "string",
+                choices: [...LOG_FORMATS],
+                default: "text",
+            },
         },
     });
 
-    const implementation = new MetaMaskAndroidGlue();
-    const serveResult = serveGlue(implementation, { port: 3001 });
+    // meow has already checked these against the choices.
+    configureLogger({
+        level: cli.flags.logLevel as LogLevel,
+        format: cli.flags.logFormat as LogFormat,
+    });
+
+    const appium: Partial<AppiumOptions> = cli.flags.appiumConfig
+        ? await readAppiumConfig(cli.flags.appiumConfig)
+        : {};
+
+    if (cli.flags.appiumUrl !== undefined) {
+        appium.url = cli.flags.appiumUrl;
+    }
+
+    if (cli.flags.udid !== undefined) {
+        appium.udid = cli.flags.udid;
+    }
+
+    if (cli.flags.newCommandTimeout !== undefined) {
+        appium.newCommandTimeout = cli.flags.newCommandTimeout;
+    }
+
+    if (cli.flags.appPackage !== undefined) {
+        appium.appPackage = cli.flags.appPackage;
+    }
+
+    if (cli.flags.appActivity !== undefined) {
+        appium.appActivity = cli.flags.appActivity;
+    }
+
+    appium.capabilities = {
+        ...appium.capabilities,
+        ...Object.fromEntries(cli.flags.capability.map(parseCapability)),
+    };
+
+    const wallet = resolveWalletOptions(
+        { seed: cli.flags.seed, password: cli.flags.password },
+        process.env,
+    );
+
+    const glueServer: GlueServerOptions = {
+        host: cli.flags.glueHost,
+        port: cli.flags.gluePort,
+        socket: cli.flags.glueSocket,
+        advertise: cli.flags.glueUrl,
+    };
+
+    const options: Omit<RunOptions, "appium" | "glueServer"> = {
+        testUrl: cli.flags.testUrl,
+        reportTimeout: cli.flags.reportTimeout,
+        adbReverse: cli.flags.adbReverse,
+        glue: {
+            wallet,
+            walletState: cli.flags.walletState as WalletState,
+            accounts: cli.flags.accounts,
+            selectorProfile: cli.flags.selectorProfile,
+            connectionMode: cli.flags.connectionMode as ConnectionMode,
+            browser: cli.flags.browser,
+            network: {
+                name: cli.flags.networkName,
+                symbol: cli.flags.networkSymbol,
+                explorer: cli.flags.networkExplorer,
+            },
+            eventTimeout: cli.flags.eventTimeout * 1000,
+            retry: { deadline: cli.flags.uiTimeout * 1000 },
+            trace: cli.flags.trace,
+            artifacts: cli.flags.artifacts,
+        },
+    };
+
+    const devices = [...cli.flags.device];
+    if (
+        cli.flags.udid !== undefined &&
+        (devices.length > 0 || cli.flags.allDevices)
+    ) {
+        throw new Error(
+            "--udid can't be combined with --device or --all-devices",
+        );
+    }
+
+    if (cli.flags.allDevices) {
+        devices.push(...(await listDevices()));
+        if (devices.length === 0) {
+            throw new Error("adb didn't list any devices to run on");
+        }
+    }
+
+    const format = cli.flags.format as ReportFormat;
 
+    const stopping = stopOnSignals();
+    let result;
     try {
-        await serve(cli.flags.testUrl, implementation, serveResult);
-        const report = await implementation.reportReady;
+        if (devices.length === 0) {
+            await runGlue(
+                { ...options, appium, glueServer, signal: stopping.signal },
+                (report) => writeReport(report, format, cli.flags.output),
+            );
+            return;
+        }
 
-        if (typeof report.value !== "string") {
-            throw new Error("unsupported report type");
+        result = await runDevices(devices, {
+            ...options,
+            appium,
+            glueServer,
+            signal: stopping.signal,
+        });
+    } finally {
+        stopping.dispose();
+    }
+
+    const { report, failures } = result;
+    await writeReport(report, format, cli.flags.output);
+
+    // The first failure picks the exit code, and is logged on the way out.
+    const [first, ...rest] = failures;
+    for (const { device, error } of rest) {
+        if (!(error instanceof StepFailure)) {
+            withLogFields({ device }, () => logger.error("%O", error));
         }
+    }
+    if (first !== undefined) {
+        throw first.error;
+    }
+}
+
+interface DeviceFailure {
+    device: string;
+    error: unknown;
+}
+
+interface RunOptions {
+    testUrl: string;
+    reportTimeout: number;
+    adbReverse: boolean;
+    appium: Partial<AppiumOptions>;
+    glueServer: GlueServerOptions;
+    glue: Omit<MetaMaskAndroidGlueOptions, "appium" | "reverse">;
+
+    /**
+     * Stops the run, cleaning up as if it had failed.
+     */
+    signal?: AbortSignal;
+}
+
+/**
+ * Serve a glue for one device, and resolve with the report its test page
+ * sends. `onReport` is given the report before the glue is torn down, so it
+ * isn't held up by a device that is slow to let go.
+ */
+async function runGlue(
+    options: RunOptions,
+    onReport?: (report: Report) => Promise<void>,
+): Promise<Report> {
+    const { glueServer } = options;
+
+    // Bind before touching the device, so a bad address fails fast.
+    const server = await listen(glueServer);
+    let url;
+    try {
+        url = glueUrl(server.address(), glueServer.advertise);
+    } catch (e) {
+        await close(server);
+        throw e;
+    }
+
+    const reverse = options.adbReverse
+        ? new ReversePorts(options.appium.udid)
+        : undefined;
+
+    if (glueServer.advertise === undefined) {
+        // Only the port actually bound can be forwarded; an advertised URL is
+        // assumed to be reachable already.
+        await reverse?.forwardUrl(url, "the glue server");
+    }
 
-        process.stdout.write(report.value);
+    const implementation = new MetaMaskAndroidGlue({
+        ...options.glue,
+        appium: options.appium,
+        reverse,
+    });
+    const serveResult = serveGlue(implementation, { server });
+    const interrupted = aborted(options.signal);
+
+    try {
+        // A driver failure rejects the report, so don't wait on the launch
+        // alone.
+        await Promise.race([
+            serve(options.testUrl, implementation, url),
+            implementation.reportReady,
+            interrupted,
+        ]);
+        const report = await reportWithin(
+            Promise.race([implementation.reportReady, interrupted]),
+            options.reportTimeout,
+        );
+        await onReport?.(report);
+        return report;
     } finally {
-        await serveResult.close();
+        // Each step runs even if an earlier one fails, so ports and
+        // forwarding aren't left behind.
+        try {
+            await implementation.close();
+        } finally {
+            try {
+                await serveResult.close();
+            } finally {
+                try {
+                    await close(server);
+                } finally {
+                    await reverse?.close();
+                }
+            }
+        }
     }
 }
 
+/**
+ * Run a glue per device in parallel, each on its own glue port, appium
+ * session, trace and artifacts directories, and combine their reports.
+ */
+async function runDevices(
+    devices: readonly string[],
+    options: RunOptions,
+): Promise<{ report: Report; failures: DeviceFailure[] }> {
+    const { glueServer, glue } = options;
+    if (
+        devices.length > 1 &&
+        (glueServer.socket !== undefined || glueServer.advertise !== undefined)
+    ) {
+        throw new Error(
+            "--glue-socket and --glue-url can't be shared by several devices",
+        );
+    }
+
+    const settled = await Promise.allSettled(
+        devices.map((device, index) =>
+            withLogFields({ device }, () =>
+                runGlue({
+                    ...options,
+                    appium: forDevice(options.appium, device, index),
+                    glueServer: {
+                        ...glueServer,
+                        // Zero picks a free port for every device.
+                        port:
+                            glueServer.port === 0 ? 0 : glueServer.port + index,
+                    },
+                    glue: {
+                        ...glue,
+                        trace:
+                            glue.trace === undefined
+                                ? undefined
+                                : join(glue.trace, device),
+                        artifacts:
+                            glue.artifacts === undefined
+                                ? undefined
+                                : join(glue.artifacts, device),
+                    },
+                }),
+            ),
+        ),
+    );
+
+    const failures: DeviceFailure[] = [];
+    const report = combineReports(
+        settled.map((result, index): DeviceReport => {
+            const device = devices[index];
+            if (result.status === "fulfilled") {
+                return { device, report: result.value };
+            }
+
+            const error: unknown = result.reason;
+            failures.push({ device, error });
+            return {
+                device,
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }),
+    );
+
+    return { report, failures };
+}
+
 export function mainSync(args: string[]): void {
     main(args).catch((e) => {
-        logger.error(e);
-        process.exit(1);
+        if (e instanceof InterruptedError) {
+            logger.warn(e.message);
+        } else if (!(e instanceof StepFailure)) {
+            // Step failures were summarized when they happened.
+            logger.error("%O", e);
+        }
+        process.exit(EXIT_CODES[categorize(e)]);
     });
 }
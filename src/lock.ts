@@ -0,0 +1,198 @@
+import { LogFields, logger } from "./logger.js";
+
+const log = logger.child({ component: "lock" });
+
+/**
+ * How long a callback may hold the lock before a warning is logged, unless
+ * the lock or the acquisition says otherwise.
+ */
+const HOLD_WARNING_MS = 30000;
+
+export interface LockOptions {
+    /**
+     * Identify the caller in log records and diagnostics.
+     */
+    fields?: LogFields;
+
+    /**
+     * Waiting callbacks with a higher priority run first. Callbacks with the
+     * same priority run in the order they asked. Defaults to zero.
+     */
+    priority?: number;
+
+    /**
+     * Give up with a `LockTimeoutError` after waiting this many milliseconds
+     * for the lock. Time spent running the callback doesn't count.
+     */
+    timeout?: number;
+
+    /**
+     * Stop waiting for the lock when aborted, rejecting with the signal's
+     * reason. Has no effect once the callback has started.
+     */
+    signal?: AbortSignal;
+
+    /**
+     * Warn when the callback holds the lock for longer than this many
+     * milliseconds.
+     */
+    holdWarning?: number;
+}
+
+function describe(fields: LogFields): string {
+    const parts = Object.entries(fields)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => `${key}=${String(value)}`);
+    return parts.length === 0 ? "an unnamed caller" : parts.join(" ");
+}
+
+function abortReason(signal: AbortSignal): Error {
+    const reason: unknown = signal.reason;
+    return reason instanceof Error ? reason : new Error("stopped waiting");
+}
+
+export class LockTimeoutError extends Error {
+    /**
+     * The caller holding the lock when the wait gave up.
+     */
+    public readonly holder: LogFields | null;
+
+    constructor(timeout: number, holder: LogFields | null) {
+        const by = holder === null ? "" : `, held by ${describe(holder)}`;
+        super(`gave up after waiting ${timeout} ms for the lock${by}`);
+        this.name = "LockTimeoutError";
+        this.holder = holder;
+    }
+}
+
+interface Waiter {
+    fields: LogFields;
+    priority: number;
+    start: () => void;
+}
+
+export class Lock<T> {
+    private readonly data: T;
+    private readonly queue: Waiter[];
+    private readonly holdWarning: number;
+    private holder: LogFields | null;
+
+    /**
+     * @param holdWarning - default for `LockOptions.holdWarning`.
+     */
+    constructor(data: T, holdWarning: number = HOLD_WARNING_MS) {
+        this.data = data;
+        this.queue = [];
+        this.holdWarning = holdWarning;
+        this.holder = null;
+    }
+
+    public unsafe(): T {
+        return this.data;
+    }
+
+    /**
+     * Run `callback` once every earlier caller, and every waiting caller
+     * with a higher priority, has finished.
+     */
+    public lock<R>(
+        callback: (data: T) => Promise<R>,
+        options: LockOptions = {},
+    ): Promise<R> {
+        const fields = options.fields ?? {};
+        const signal = options.signal;
+
+        if (signal?.aborted) {
+            return Promise.reject(abortReason(signal));
+        }
+
+        if (this.holder === null) {
+            log.child(fields).debug("locking");
+            this.holder = fields;
+            return this.run(callback, fields, options);
+        }
+
+        log.child(fields).debug("queuing");
+        return new Promise<R>((res, rej) => {
+            let timer: NodeJS.Timeout | undefined;
+
+            const cleanup = () => {
+                clearTimeout(timer);
+                signal?.removeEventListener("abort", abort);
+            };
+
+            const cancel = (reason: Error) => {
+                const index = this.queue.indexOf(waiter);
+                if (index !== -1) {
+                    this.queue.splice(index, 1);
+                    cleanup();
+                    rej(reason);
+                }
+            };
+
+            const abort = () => signal && cancel(abortReason(signal));
+
+            const waiter: Waiter = {
+                fields,
+                priority: options.priority ?? 0,
+                start: () => {
+                    cleanup();
+                    this.run(callback, fields, options).then(res, rej);
+                },
+            };
+
+            const after = this.queue.findIndex(
+                (w) => w.priority < waiter.priority,
+            );
+            this.queue.splice(
+                after === -1 ? this.queue.length : after,
+                0,
+                waiter,
+            );
+
+            if (options.timeout !== undefined) {
+                const timeout = options.timeout;
+                timer = setTimeout(() => {
+                    log.child(fields).warn(
+                        `gave up waiting for the lock held by ${describe(this.holder ?? {})}`,
+                    );
+                    cancel(new LockTimeoutError(timeout, this.holder));
+                }, timeout);
+            }
+
+            signal?.addEventListener("abort", abort, { once: true });
+        });
+    }
+
+    private run<R>(
+        callback: (data: T) => Promise<R>,
+        fields: LogFields,
+        options: LockOptions,
+    ): Promise<R> {
+        const limit = options.holdWarning ?? this.holdWarning;
+        const watchdog = setTimeout(() => {
+            const waiting = this.queue.map((w) => describe(w.fields));
+            log.child(fields).warn(
+                `still holding the lock after ${limit} ms, with ${waiting.length} waiting%s`,
+                waiting.length === 0 ? "" : `: ${waiting.join("; ")}`,
+            );
+        }, limit);
+
+        return callback(this.data).finally(() => {
+            clearTimeout(watchdog);
+            this.after();
+        });
+    }
+
+    private after() {
+        const item = this.queue.shift();
+        if (item === undefined) {
+            log.debug("unlocking");
+            this.holder = null;
+        } else {
+            log.child(item.fields).debug("running queued task");
+            this.holder = item.fields;
+            item.start();
+        }
+    }
+}
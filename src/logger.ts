@@ -1,3 +1,134 @@
-import { Console } from "node:console";
+import { AsyncLocalStorage } from "node:async_hooks";
+import process from "node:process";
+import { format } from "node:util";
 
-export const logger = new Console(process.stderr, process.stderr);
+export const LOG_LEVELS = ["debug", "info", "warn", "error", "silent"] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export const LOG_FORMATS = ["text", "json"] as const;
+export type LogFormat = (typeof LOG_FORMATS)[number];
+
+/**
+ * Context attached to every record from a logger.
+ */
+export interface LogFields {
+    /**
+     * Part of the glue the record came from, like `watcher`, `lock`,
+     * `action`, or `setup`.
+     */
+    component?: string;
+
+    /**
+     * UUID of the glue event the record relates to.
+     */
+    event?: string;
+
+    [key: string]: unknown;
+}
+
+export interface LogRecord extends LogFields {
+    time: string;
+    level: Exclude<LogLevel, "silent">;
+    message: string;
+}
+
+interface LogSettings {
+    level: LogLevel;
+    format: LogFormat;
+    write: (line: string) => void;
+}
+
+const settings: LogSettings = {
+    level: "info",
+    format: "text",
+    write: (line) => process.stderr.write(line),
+};
+
+/**
+ * Set how records are filtered and written, for every logger in the process.
+ */
+export function configureLogger(options: Partial<LogSettings>): void {
+    Object.assign(settings, options);
+}
+
+const context = new AsyncLocalStorage<Readonly<LogFields>>();
+
+/**
+ * Run `callback` with `fields` added to every record logged while it runs,
+ * including from work it starts. Fields given to a logger take precedence.
+ */
+export function withLogFields<T>(fields: LogFields, callback: () => T): T {
+    return context.run({ ...context.getStore(), ...fields }, callback);
+}
+
+function enabled(level: LogLevel): boolean {
+    return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(settings.level);
+}
+
+function render(record: LogRecord): string {
+    if (settings.format === "json") {
+        return JSON.stringify(record) + "\n";
+    }
+
+    const { time, level, message, component, ...rest } = record;
+    const where = component === undefined ? "" : ` ${component}:`;
+    const fields = Object.entries(rest)
+        .filter(([, v]) => v !== undefined)
+        .map(([k, v]) => ` ${k}=${typeof v === "string" ? v : format("%o", v)}`)
+        .join("");
+
+    return `${time} ${level.toUpperCase()}${where} ${message}${fields}\n`;
+}
+
+export class Logger {
+    private readonly fields: Readonly<LogFields>;
+
+    constructor(fields: LogFields = {}) {
+        this.fields = fields;
+    }
+
+    /**
+     * A logger that adds `fields` to every record.
+     */
+    public child(fields: LogFields): Logger {
+        return new Logger({ ...this.fields, ...fields });
+    }
+
+    private log(
+        level: Exclude<LogLevel, "silent">,
+        message: string,
+        args: unknown[],
+    ): void {
+        if (!enabled(level)) {
+            return;
+        }
+
+        settings.write(
+            render({
+                time: new Date().toISOString(),
+                level,
+                ...context.getStore(),
+                ...this.fields,
+                message: format(message, ...args),
+            }),
+        );
+    }
+
+    public debug(message: string, ...args: unknown[]): void {
+        this.log("debug", message, args);
+    }
+
+    public info(message: string, ...args: unknown[]): void {
+        this.log("info", message, args);
+    }
+
+    public warn(message: string, ...args: unknown[]): void {
+        this.log("warn", message, args);
+    }
+
+    public error(message: string, ...args: unknown[]): void {
+        this.log("error", message, args);
+    }
+}
+
+export const logger = new Logger();
@@ -0,0 +1,125 @@
+/**
+ * Details MetaMask asks for when adding a network, beyond its chain ID and
+ * RPC URL.
+ */
+export interface NetworkMetadata {
+    /**
+     * Name shown in the wallet. `{chainId}` is replaced with the chain ID.
+     */
+    name: string;
+    symbol: string;
+    explorer: string;
+}
+
+export const DEFAULT_NETWORK_METADATA: Readonly<NetworkMetadata> = {
+    name: "Test Chain {chainId}",
+    symbol: "TETH",
+    explorer: "https://example.com/",
+};
+
+/**
+ * A network set up in the wallet during this session.
+ */
+export interface ConfiguredNetwork {
+    chainId: string;
+    name: string;
+    rpcUrl: string;
+}
+
+/**
+ * Networks MetaMask ships with, keyed by the name shown in the app.
+ */
+const BUILTIN_NETWORKS: ReadonlyMap<string, string> = new Map([
+    ["Ethereum Main Network", "0x1"],
+    ["Linea Main Network", "0xe708"],
+    ["Sepolia", "0xaa36a7"],
+    ["Linea Sepolia", "0xe705"],
+]);
+
+/**
+ * Write `chainId` as lowercase hex without leading zeros, so `0x0539`,
+ * `0x539` and `1337` all compare equal.
+ */
+export function normalizeChainId(chainId: string): string {
+    let value;
+    try {
+        value = BigInt(chainId.trim());
+    } catch (_) {
+        throw new Error(`invalid chain ID "${chainId}"`);
+    }
+    if (value <= 0n) {
+        throw new Error(`invalid chain ID "${chainId}"`);
+    }
+    return `0x${value.toString(16)}`;
+}
+
+/**
+ * The networks the wallet knows about, by the name it shows them under, and
+ * the ones configured during this session.
+ */
+export class NetworkRegistry {
+    private readonly names = new Map(BUILTIN_NETWORKS);
+    private readonly configured = new Map<string, ConfiguredNetwork>();
+    private readonly metadata: NetworkMetadata;
+
+    constructor(metadata: Partial<NetworkMetadata> = {}) {
+        this.metadata = { ...DEFAULT_NETWORK_METADATA, ...metadata };
+    }
+
+    /**
+     * Metadata to add the network for `chainId` with.
+     */
+    public metadataFor(chainId: string): NetworkMetadata {
+        return {
+            ...this.metadata,
+            name: this.metadata.name.split("{chainId}").join(chainId),
+        };
+    }
+
+    public register(name: string, chainId: string): void {
+        this.names.set(name, normalizeChainId(chainId));
+    }
+
+    public chainIdOf(name: string): string | undefined {
+        return this.names.get(name);
+    }
+
+    /**
+     * The name the wallet shows `chainId` under, if it is known.
+     */
+    public nameOf(chainId: string): string | undefined {
+        const wanted = normalizeChainId(chainId);
+        const configured = this.configured.get(wanted);
+        if (configured !== undefined) {
+            return configured.name;
+        }
+
+        for (const [name, id] of this.names) {
+            if (id === wanted) {
+                return name;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Remember that `network` was set up in the wallet.
+     */
+    public record(network: ConfiguredNetwork): void {
+        const chainId = normalizeChainId(network.chainId);
+        this.register(network.name, chainId);
+        this.configured.set(chainId, { ...network, chainId });
+    }
+
+    public configuredFor(chainId: string): ConfiguredNetwork | undefined {
+        return this.configured.get(normalizeChainId(chainId));
+    }
+
+    /**
+     * Networks configured during this session, in the order they were
+     * first set up.
+     */
+    public get session(): readonly ConfiguredNetwork[] {
+        return [...this.configured.values()];
+    }
+}
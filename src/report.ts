@@ -0,0 +1,351 @@
+import { Report } from "@wallet-test-framework/glue";
+import { writeFile } from "node:fs/promises";
+import process from "node:process";
+
+export const REPORT_FORMATS = ["raw", "json", "junit", "tap"] as const;
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+export interface TestResult {
+    /**
+     * Device the test ran on, in reports combined from several devices.
+     */
+    device?: string;
+
+    suite: string;
+    title: string;
+    state: "passed" | "failed" | "pending";
+
+    /** Milliseconds the test took, when known. */
+    duration?: number;
+
+    message?: string;
+    stack?: string;
+}
+
+/**
+ * How the run on one device ended.
+ */
+export interface DeviceReport {
+    device: string;
+
+    /**
+     * The report the test page sent, if the run got that far.
+     */
+    report?: Report;
+
+    /**
+     * Why the run failed, when it did.
+     */
+    error?: string;
+}
+
+/**
+ * The `format` of reports made by `combineReports`.
+ */
+export const DEVICES_FORMAT = "devices";
+
+/**
+ * Combine the runs on several devices into one report, which keeps each
+ * device's report and labels its results with the device.
+ */
+export function combineReports(runs: readonly DeviceReport[]): Report {
+    return { format: DEVICES_FORMAT, value: [...runs] };
+}
+
+function deviceReports(report: Report): DeviceReport[] | null {
+    if (report.format !== DEVICES_FORMAT || !Array.isArray(report.value)) {
+        return null;
+    }
+    return report.value as DeviceReport[];
+}
+
+interface MochaTest {
+    title: string;
+    fullTitle: string;
+    duration?: number;
+    err?: { message?: string; stack?: string };
+}
+
+function isMochaTest(value: unknown): value is MochaTest {
+    return (
+        typeof value === "object" &&
+        value !== null &&
+        "title" in value &&
+        typeof value.title === "string" &&
+        "fullTitle" in value &&
+        typeof value.fullTitle === "string"
+    );
+}
+
+/**
+ * The report's payload, parsing strings that hold JSON.
+ */
+function payload(report: Report): unknown {
+    if (typeof report.value !== "string") {
+        return report.value;
+    }
+
+    try {
+        return JSON.parse(report.value) as unknown;
+    } catch (_) {
+        return report.value;
+    }
+}
+
+/**
+ * Read individual test results from a report in mocha's JSON reporter
+ * format, or `null` if the report isn't in that form.
+ */
+export function readResults(report: Report): TestResult[] | null {
+    const runs = deviceReports(report);
+    if (runs !== null) {
+        return readDeviceResults(runs);
+    }
+
+    const value = payload(report);
+
+    if (typeof value !== "object" || value === null || !("tests" in value)) {
+        return null;
+    }
+
+    const tests = value.tests;
+    if (!Array.isArray(tests) || !tests.every(isMochaTest)) {
+        return null;
+    }
+
+    const pending = new Set<string>();
+    if ("pending" in value && Array.isArray(value.pending)) {
+        for (const test of value.pending) {
+            if (isMochaTest(test)) {
+                pending.add(test.fullTitle);
+            }
+        }
+    }
+
+    return tests.map((test) => {
+        const suite = test.fullTitle.endsWith(test.title)
+            ? test.fullTitle.slice(0, -test.title.length).trim()
+            : "";
+
+        let state: TestResult["state"] = "passed";
+        if (pending.has(test.fullTitle)) {
+            state = "pending";
+        } else if (test.err?.message !== undefined) {
+            state = "failed";
+        }
+
+        return {
+            suite,
+            title: test.title,
+            state,
+            duration: test.duration,
+            message: test.err?.message,
+            stack: test.err?.stack,
+        };
+    });
+}
+
+/**
+ * Results from every device, with suites prefixed by the device. A device
+ * whose run failed before it reported gets one failed result saying why.
+ */
+function readDeviceResults(runs: readonly DeviceReport[]): TestResult[] | null {
+    const all: TestResult[] = [];
+
+    for (const run of runs) {
+        let results: TestResult[] | null = [];
+        if (run.report !== undefined) {
+            results = readResults(run.report);
+            if (results === null) {
+                return null;
+            }
+        }
+
+        if (run.error !== undefined) {
+            results.push({
+                suite: "",
+                title: "run",
+                state: "failed",
+                message: run.error,
+            });
+        }
+
+        for (const result of results) {
+            all.push({
+                ...result,
+                device: run.device,
+                suite: `[${run.device}] ${result.suite}`.trim(),
+            });
+        }
+    }
+
+    return all;
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
+
+function seconds(ms: number | undefined): string {
+    return ((ms ?? 0) / 1000).toFixed(3);
+}
+
+function toJUnit(results: readonly TestResult[]): string {
+    const suites = new Map<string, TestResult[]>();
+    for (const result of results) {
+        const suite = suites.get(result.suite) ?? [];
+        suite.push(result);
+        suites.set(result.suite, suite);
+    }
+
+    const count = (rs: readonly TestResult[], state: TestResult["state"]) =>
+        rs.filter((r) => r.state === state).length;
+    const time = (rs: readonly TestResult[]) =>
+        seconds(rs.reduce((sum, r) => sum + (r.duration ?? 0), 0));
+
+    const lines = [
+        `<?xml version="1.0" encoding="UTF-8"?>`,
+        `<testsuites name="Wallet Test Framework" tests="${results.length}" failures="${count(results, "failed")}" skipped="${count(results, "pending")}" time="${time(results)}">`,
+    ];
+
+    for (const [name, tests] of suites) {
+        lines.push(
+            `  <testsuite name="${escapeXml(name)}" tests="${tests.length}" failures="${count(tests, "failed")}" skipped="${count(tests, "pending")}" time="${time(tests)}">`,
+        );
+
+        for (const test of tests) {
+            const open = `    <testcase classname="${escapeXml(name)}" name="${escapeXml(test.title)}" time="${seconds(test.duration)}"`;
+
+            if (test.state === "passed") {
+                lines.push(`${open}/>`);
+                continue;
+            }
+
+            lines.push(`${open}>`);
+            if (test.state === "pending") {
+                lines.push(`      <skipped/>`);
+            } else {
+                lines.push(
+                    `      <failure message="${escapeXml(test.message ?? "")}">${escapeXml(test.stack ?? test.message ?? "")}</failure>`,
+                );
+            }
+            lines.push(`    </testcase>`);
+        }
+
+        lines.push(`  </testsuite>`);
+    }
+
+    lines.push(`</testsuites>`);
+    return lines.join("\n") + "\n";
+}
+
+function toTap(results: readonly TestResult[]): string {
+    const lines = ["TAP version 13", `1..${results.length}`];
+
+    results.forEach((test, ii) => {
+        // "#" would start a directive, so it can't appear in descriptions.
+        const name = [test.suite, test.title]
+            .filter((part) => part !== "")
+            .join(" ")
+            .replace(/#/g, "\\#");
+
+        if (test.state === "pending") {
+            lines.push(`ok ${ii + 1} - ${name} # SKIP`);
+        } else if (test.state === "passed") {
+            lines.push(`ok ${ii + 1} - ${name}`);
+        } else {
+            lines.push(`not ok ${ii + 1} - ${name}`);
+            lines.push("  ---");
+            lines.push(`  message: ${JSON.stringify(test.message ?? "")}`);
+            if (test.stack !== undefined) {
+                lines.push("  stack: |-");
+                for (const line of test.stack.split("\n")) {
+                    lines.push(`    ${line}`);
+                }
+            }
+            lines.push("  ...");
+        }
+    });
+
+    return lines.join("\n") + "\n";
+}
+
+function formatRawRun(run: DeviceReport): string {
+    let text = `==> ${run.device} <==\n`;
+    if (run.report !== undefined) {
+        text += formatReport(run.report, "raw");
+        if (!text.endsWith("\n")) {
+            text += "\n";
+        }
+    }
+    if (run.error !== undefined) {
+        text += `failed: ${run.error}\n`;
+    }
+    return text;
+}
+
+function toJson(report: Report): unknown {
+    const runs = deviceReports(report);
+    if (runs === null) {
+        return { format: report.format, value: payload(report) };
+    }
+
+    return {
+        format: report.format,
+        value: runs.map((run) => ({
+            ...run,
+            report: run.report === undefined ? undefined : toJson(run.report),
+        })),
+    };
+}
+
+/**
+ * Render `report` in the given format. JUnit and TAP need individual test
+ * results, so they throw when the report doesn't carry them.
+ */
+export function formatReport(report: Report, format: ReportFormat): string {
+    const runs = deviceReports(report);
+
+    switch (format) {
+        case "raw":
+            if (runs !== null) {
+                return runs.map(formatRawRun).join("\n");
+            }
+            return typeof report.value === "string"
+                ? report.value
+                : JSON.stringify(report.value, null, 4) + "\n";
+        case "json":
+            return JSON.stringify(toJson(report), null, 4) + "\n";
+        case "junit":
+        case "tap": {
+            const results = readResults(report);
+            if (results === null) {
+                throw new Error(
+                    `a "${report.format}" report has no test results to write as ${format}`,
+                );
+            }
+            return format === "junit" ? toJUnit(results) : toTap(results);
+        }
+    }
+}
+
+/**
+ * Write the formatted report to `output`, or to stdout when it isn't given.
+ */
+export async function writeReport(
+    report: Report,
+    format: ReportFormat,
+    output?: string,
+): Promise<void> {
+    const text = formatReport(report, format);
+
+    if (output === undefined) {
+        process.stdout.write(text);
+    } else {
+        await writeFile(output, text);
+    }
+}
@@ -0,0 +1,129 @@
+export interface RetryPolicy {
+    /**
+     * Most attempts to make, including the first. Unbounded by default when
+     * a `deadline` is given, so the deadline alone decides how long to try.
+     */
+    attempts: number;
+
+    /**
+     * Milliseconds to wait before the second attempt.
+     */
+    delay: number;
+
+    /**
+     * Factor the wait grows by after each further attempt.
+     */
+    backoff: number;
+
+    /**
+     * Longest wait between two attempts, in milliseconds.
+     */
+    maxDelay: number;
+
+    /**
+     * Milliseconds after the first attempt starts when no new attempt is
+     * made, however many are left.
+     */
+    deadline: number;
+}
+
+export const DEFAULT_RETRY_POLICY: Readonly<RetryPolicy> = {
+    attempts: 20,
+    delay: 250,
+    backoff: 1.5,
+    maxDelay: 2000,
+    deadline: 30000,
+};
+
+/**
+ * A step kept failing until its retry policy ran out.
+ */
+export class RetryTimeoutError extends Error {
+    public readonly step: string;
+    public readonly attempts: number;
+    public readonly cause: unknown;
+
+    constructor(
+        step: string,
+        attempts: number,
+        elapsed: number,
+        cause: unknown,
+    ) {
+        const reason =
+            cause instanceof Error ? cause.message : String(cause ?? "");
+        super(
+            `${step} gave up after ${attempts} attempts in ${(elapsed / 1000).toFixed(1)} s${reason ? `: ${reason}` : ""}`,
+        );
+        this.name = "RetryTimeoutError";
+        this.step = step;
+        this.attempts = attempts;
+        this.cause = cause;
+    }
+}
+
+function delay(ms: number): Promise<void> {
+    return new Promise((res) => setTimeout(res, ms));
+}
+
+/**
+ * Call `callback` until it resolves, waiting longer after each failure.
+ * Throws a `RetryTimeoutError` naming `step` when `policy` runs out.
+ */
+export async function retry<T>(
+    step: string,
+    callback: (attempt: number) => Promise<T>,
+    policy: Partial<RetryPolicy> = {},
+): Promise<T> {
+    const { attempts, backoff, maxDelay, deadline, ...rest } = {
+        ...DEFAULT_RETRY_POLICY,
+        ...(policy.deadline === undefined ? {} : { attempts: Infinity }),
+        ...policy,
+    };
+    const started = performance.now();
+    let wait = rest.delay;
+    let last: unknown = undefined;
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+        try {
+            return await callback(attempt);
+        } catch (e) {
+            last = e;
+        }
+
+        const elapsed = performance.now() - started;
+        if (attempt === attempts || elapsed + wait > deadline) {
+            throw new RetryTimeoutError(step, attempt, elapsed, last);
+        }
+
+        await delay(wait);
+        wait = Math.min(wait * backoff, maxDelay);
+    }
+
+    throw new RetryTimeoutError(step, 0, 0, last);
+}
+
+class NotYet extends Error {
+    constructor() {
+        super("still waiting");
+    }
+}
+
+/**
+ * Check `condition` until it holds, under the same rules as `retry`. A
+ * check that throws counts as one that doesn't hold.
+ */
+export async function waitUntil(
+    step: string,
+    condition: (attempt: number) => Promise<boolean>,
+    policy: Partial<RetryPolicy> = {},
+): Promise<void> {
+    await retry(
+        step,
+        async (attempt) => {
+            if (!(await condition(attempt))) {
+                throw new NotYet();
+            }
+        },
+        policy,
+    );
+}
@@ -0,0 +1,383 @@
+import { logger } from "./logger.js";
+
+/**
+ * Every XPath the glue uses to drive MetaMask, grouped by screen.
+ */
+export interface Selectors {
+    unlock: {
+        passwordInput: string;
+        unlockButton: string;
+    };
+    onboarding: {
+        getStarted: string;
+        importFromSeed: string;
+        denyMetrics: string;
+        termsScrollEnd: string;
+        termsCheckbox: string;
+        termsAccept: string;
+        showSeed: string;
+        seedInput: string;
+        newPassword: string;
+        confirmPassword: string;
+        biometricsSwitch: string;
+        importSubmit: string;
+        done: string;
+        noThanks: string;
+    };
+    wallet: {
+        /**
+         * Only on the wallet's home screen, once it is unlocked.
+         */
+        home: string;
+
+        /**
+         * The selected account's abbreviated address.
+         */
+        address: string;
+    };
+    accounts: {
+        open: string;
+        account: (short: string) => string;
+        add: string;
+        create: string;
+    };
+    connectAccount: {
+        container: string;
+        edit: string;
+        account: (short: string) => string;
+
+        /**
+         * Every abbreviated address on the edit screen.
+         */
+        addresses: string;
+
+        /**
+         * The checkable row of an account on the edit screen.
+         */
+        row: (short: string) => string;
+        update: string;
+        back: string;
+        cancel: string;
+        connect: string;
+    };
+    transaction: {
+        originPill: string;
+        to: string;
+        viewData: string;
+        hexData: string;
+        closeData: string;
+        recipient: string;
+        toAccount: (name: string, short: string) => string;
+        fromAccount: (name: string, short: string) => string;
+        value: (title: string) => string;
+        confirm: string;
+        sign: string;
+        reject: string;
+    };
+    personalSign: {
+        container: string;
+        message: string;
+        cancel: string;
+        confirm: string;
+    };
+    typedSign: {
+        container: string;
+        /** Label and value text views of the domain rows. */
+        domain: string;
+        primaryType: string;
+        /** Label and value text views of the message rows. */
+        message: string;
+        cancel: string;
+        confirm: string;
+    };
+    switchNetwork: {
+        title: string;
+        networkName: string;
+        cancel: string;
+        approve: string;
+    };
+    addNetwork: {
+        title: string;
+        field: (label: string) => string;
+        cancel: string;
+        approve: string;
+    };
+    networks: {
+        open: string;
+        current: string;
+        addCustom: string;
+        name: string;
+        chainId: string;
+        rpcMenu: string;
+        addRpc: string;
+        rpcUrl: string;
+        confirmRpc: string;
+        symbol: string;
+        explorerMenu: string;
+        addExplorer: string;
+        explorerUrl: string;
+        confirmExplorer: string;
+        confirmNetwork: string;
+        select: (name: string) => string;
+        educationClose: string;
+
+        /** Menu next to a network in the list, with the edit option. */
+        options: (name: string) => string;
+        edit: string;
+
+        /** Warning on the add form when the chain ID is already added. */
+        chainIdInUse: string;
+    };
+    launch: {
+        walletConnect: string;
+        selectWallet: string;
+        metamask: string;
+
+        /** Android's "Open with" picker, shown when no handler is default. */
+        resolverList: string;
+        resolverMetamask: string;
+        resolverOnce: string;
+    };
+}
+
+export interface SelectorProfile {
+    name: string;
+
+    /**
+     * Inclusive lower bound and exclusive upper bound of the MetaMask
+     * versions this profile has been tested against.
+     */
+    versions: readonly [string, string];
+
+    selectors: Selectors;
+}
+
+const V7_29: Selectors = {
+    unlock: {
+        passwordInput:
+            '//android.widget.EditText[@resource-id="login-password-input"]',
+        unlockButton: '//android.widget.Button[@content-desc="UNLOCK"]',
+    },
+    onboarding: {
+        getStarted: '//android.widget.Button[@content-desc="Get started"]',
+        importFromSeed:
+            '//android.widget.Button[@content-desc="wallet-setup-screen-import-from-seed-button-id"]',
+        denyMetrics: '//android.widget.Button[@content-desc="No thanks"]',
+        termsScrollEnd:
+            '//android.view.ViewGroup[@resource-id="terms-of-use-scroll-end-arrow-button-id"]',
+        termsCheckbox:
+            '//android.view.ViewGroup[@resource-id="terms-of-use-checkbox"]',
+        termsAccept: '//android.widget.Button[@content-desc="Accept"]',
+        showSeed: '(//android.view.ViewGroup[@content-desc="Show"])[1]',
+        seedInput:
+            '//android.widget.EditText[@text="Enter your Secret Recovery Phrase"]',
+        newPassword:
+            '//android.widget.EditText[@resource-id="create-password-first-input-field"]',
+        confirmPassword:
+            '//android.widget.EditText[@resource-id="create-password-second-input-field"]',
+        //'//android.widget.Switch[@resource-id="login-with-biometrics-switch"]',
+        biometricsSwitch: "//android.widget.Switch",
+        importSubmit:
+            '//android.widget.Button[@content-desc="import-from-seed-screen-submit-button-id"]',
+        done: '//android.widget.Button[@content-desc="Done"]',
+        noThanks: '//android.widget.Button[@content-desc="No thanks"]',
+    },
+    wallet: {
+        home: '//android.widget.TextView[@resource-id="account-balance"]',
+        address:
+            '//android.widget.TextView[@resource-id="wallet-account-address"]',
+    },
+    accounts: {
+        open: '//android.view.ViewGroup[@resource-id="account-picker"]',
+        account: (short) =>
+            `//*[@resource-id="account-list"]//android.widget.TextView[@text="${short}"]`,
+        add: '//android.widget.Button[@content-desc="account-list-add-account-button"]',
+        create: '//android.widget.Button[@content-desc="add-account-new-account-button"]',
+    },
+    connectAccount: {
+        container:
+            '//android.view.ViewGroup[@resource-id="permission-network-permissions-container"]',
+        edit: '(//android.widget.TextView[@text="Edit"])[1]',
+        account: (short) => `//android.widget.TextView[@text="${short}"]`,
+        addresses:
+            '//android.widget.TextView[starts-with(@text, "0x") and contains(@text, "...")]',
+        row: (short) =>
+            `//android.widget.TextView[@text="${short}"]/ancestor::android.view.ViewGroup[@checkable="true"][1]`,
+        update: '//android.widget.Button[@content-desc="Update"]',
+        back: '//android.view.ViewGroup[@resource-id="sheet-header-back-button"]',
+        cancel: '//android.view.ViewGroup[@resource-id="permission-network-permissions-container"]/following-sibling::android.widget.Button[@content-desc="cancel-button"]',
+        connect:
+            '//android.view.ViewGroup[@resource-id="permission-network-permissions-container"]/following-sibling::android.widget.Button[@content-desc="connect-button"]',
+    },
+    transaction: {
+        originPill:
+            '//android.view.ViewGroup[@resource-id="APPROVAL_TAG_URL_ORIGIN_PILL"]',
+        to: '//android.widget.TextView[@text="To:"]',
+        viewData: '//android.view.ViewGroup[@content-desc="View Data"]',
+        hexData:
+            '//android.widget.TextView[@text="Hex data: "]/following-sibling::*//*[starts-with(@text, "0x")]',
+        closeData: '//android.view.ViewGroup[@content-desc="\uF3CF"]',
+        recipient:
+            '//android.view.ViewGroup[@resource-id="add-address-button"]',
+        toAccount: (name, short) =>
+            `//android.widget.TextView[@text="To:"]/following-sibling::*[1]//*[@text="${name}" or @text="${short}"]`,
+        fromAccount: (name, short) =>
+            `//android.widget.TextView[@text="From:"]/following-sibling::*[1]//*[@text="${name}" or @text="${short}"]`,
+        value: (title) =>
+            `//*[@resource-id="account-balance"]/parent::*//*[@text="${title}"]/following-sibling::*[@text]`,
+        confirm: '//android.widget.Button[@content-desc="Confirm"]',
+        sign: '//android.widget.Button[@content-desc="Sign"]',
+        reject: '//android.widget.Button[@content-desc="Reject"]',
+    },
+    personalSign: {
+        container:
+            '//android.view.ViewGroup[@resource-id="personal-signature-request"]',
+        message:
+            '//android.widget.TextView[@text="Message:"]/following-sibling::android.widget.TextView[@text]',
+        cancel: '//android.widget.Button[@content-desc="request-signature-cancel-button"]',
+        confirm:
+            '//android.widget.Button[@content-desc="request-signature-confirm-button"]',
+    },
+    typedSign: {
+        container:
+            '//android.view.ViewGroup[@resource-id="typed-signature-request"]',
+        domain: '//*[@resource-id="typed-signature-request"]//*[@resource-id="signature-request-domain"]//android.widget.TextView[@text]',
+        primaryType:
+            '//*[@resource-id="typed-signature-request"]//android.widget.TextView[@text="Primary type:"]/following-sibling::android.widget.TextView[@text][1]',
+        message:
+            '//*[@resource-id="typed-signature-request"]//*[@resource-id="signature-request-message"]//android.widget.TextView[@text]',
+        cancel: '//android.widget.Button[@content-desc="signature-cancel-button"]',
+        confirm:
+            '//android.widget.Button[@content-desc="signature-confirm-button"]',
+    },
+    switchNetwork: {
+        title: '//android.widget.TextView[@text="Allow this site to switch the network?"]',
+        networkName:
+            '//android.widget.TextView[@text="Allow this site to switch the network?"]/following-sibling::*//*[@resource-id="network-name"]',
+        cancel: '//android.widget.Button[@content-desc="Cancel"]',
+        approve: '//android.widget.Button[@content-desc="Switch network"]',
+    },
+    addNetwork: {
+        title: '//android.widget.TextView[@text="Want to add this network?"]',
+        field: (label) =>
+            `//android.widget.TextView[@text="${label}"]/following-sibling::android.widget.TextView[@text][1]`,
+        cancel: '//android.widget.Button[@content-desc="Cancel"]',
+        approve: '//android.widget.Button[@content-desc="Approve"]',
+    },
+    networks: {
+        open: '//android.view.ViewGroup[@resource-id="open-networks-button"]',
+        current:
+            '//android.view.ViewGroup[@resource-id="open-networks-button"]//android.widget.TextView[@text]',
+        addCustom:
+            '//android.widget.Button[@content-desc="Add a custom network"]',
+        name: '//android.widget.EditText[@resource-id="input-network-name"]',
+        chainId: '//android.widget.EditText[@resource-id="input-chain-id"]',
+        rpcMenu: '//android.view.ViewGroup[@resource-id="drop-down-rpc-menu"]',
+        addRpc: '//android.widget.Button[@content-desc="Add RPC URL"]',
+        rpcUrl: '//android.widget.EditText[@resource-id="input-rpc-url"]',
+        confirmRpc: '//android.widget.Button[@resource-id="add-rpc-button"]',
+        symbol: '//android.widget.EditText[@resource-id="input-network-symbol"]',
+        explorerMenu:
+            '//android.view.ViewGroup[@resource-id="drop-down-block-explorer-menu"]',
+        addExplorer:
+            '//android.widget.Button[@content-desc="Add Block Explorer URL"]',
+        explorerUrl: '//android.widget.EditText[@resource-id="block-explorer"]',
+        confirmExplorer:
+            '//android.widget.Button[@resource-id="add-block-explorer-button"]',
+        confirmNetwork:
+            '//android.widget.Button[@resource-id="add-custom-network-button"]',
+        select: (name) =>
+            `//android.widget.TextView[@text="${name}"]/ancestor::*[@resource-id="select-with-menu"]`,
+        educationClose:
+            '//android.widget.Button[@content-desc="network-education-modal-close-button"]',
+        options: (name) =>
+            `//android.widget.TextView[@text="${name}"]/ancestor::*[@resource-id="select-with-menu"]//android.widget.Button[@content-desc="network-options-button"]`,
+        edit: '//android.widget.Button[@content-desc="Edit"]',
+        chainIdInUse:
+            '//android.widget.TextView[contains(@text, "is currently used by the")]',
+    },
+    launch: {
+        walletConnect: '//android.widget.Button[@resource-id="walletConnect"]',
+        selectWallet: '//android.widget.Button[@text="Select Wallet"]',
+        metamask: '//android.widget.TextView[@text="MetaMask"]',
+        resolverList: '//*[@resource-id="android:id/resolver_list"]',
+        resolverMetamask:
+            '//*[@resource-id="android:id/resolver_list"]//android.widget.TextView[@text="MetaMask"]',
+        resolverOnce:
+            '//android.widget.Button[@resource-id="android:id/button_once"]',
+    },
+};
+
+/**
+ * Known selector profiles, oldest first.
+ */
+export const PROFILES: readonly SelectorProfile[] = [
+    {
+        name: "7.29",
+        versions: ["7.29.0", "7.33.0"],
+        selectors: V7_29,
+    },
+];
+
+/**
+ * Compare two dotted version strings numerically. Missing components count
+ * as zero, and anything after a `-` or `+` is ignored.
+ */
+export function compareVersions(a: string, b: string): number {
+    const parse = (v: string) =>
+        v
+            .split(/[-+]/)[0]
+            .split(".")
+            .map((part) => Number.parseInt(part, 10) || 0);
+
+    const left = parse(a);
+    const right = parse(b);
+
+    for (let ii = 0; ii < Math.max(left.length, right.length); ii++) {
+        const diff = (left[ii] ?? 0) - (right[ii] ?? 0);
+        if (diff !== 0) {
+            return diff;
+        }
+    }
+
+    return 0;
+}
+
+/**
+ * Pick the selector profile for the installed MetaMask `version`, or the
+ * profile named by `override`. Falls back to the newest profile when the
+ * version isn't covered by any of them.
+ */
+export function selectProfile(
+    version: string | null,
+    override?: string,
+): SelectorProfile {
+    const newest = PROFILES[PROFILES.length - 1];
+
+    if (override !== undefined) {
+        const profile = PROFILES.find((p) => p.name === override);
+        if (!profile) {
+            const names = PROFILES.map((p) => p.name).join(", ");
+            throw new Error(
+                `unknown selector profile "${override}" (known: ${names})`,
+            );
+        }
+        return profile;
+    }
+
+    if (version !== null) {
+        const profile = PROFILES.find(
+            (p) =>
+                compareVersions(version, p.versions[0]) >= 0 &&
+                compareVersions(version, p.versions[1]) < 0,
+        );
+        if (profile) {
+            return profile;
+        }
+    }
+
+    logger.warn(
+        `no selector profile for MetaMask ${version ?? "(unknown version)"}, using ${newest.name}`,
+    );
+    return newest;
+}
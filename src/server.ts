@@ -0,0 +1,137 @@
+import { logger } from "./logger.js";
+import { rm, stat } from "node:fs/promises";
+import { Server, createServer } from "node:http";
+import { AddressInfo, Socket } from "node:net";
+
+export interface GlueServerOptions {
+    /**
+     * Interface to listen on. Defaults to every interface.
+     */
+    host?: string;
+
+    /**
+     * Port to listen on, or zero to pick a free one.
+     */
+    port: number;
+
+    /**
+     * Path of a unix socket to listen on instead of a TCP port.
+     */
+    socket?: string;
+
+    /**
+     * URL the device should use to reach the glue, when it differs from the
+     * address being listened on.
+     */
+    advertise?: string;
+}
+
+export const DEFAULT_GLUE_SERVER_OPTIONS: GlueServerOptions = {
+    port: 3001,
+};
+
+const WILDCARDS = new Set(["0.0.0.0", "::", ""]);
+
+/**
+ * Connections open on each server `listen` started, including the websockets
+ * upgraded from them, which `Server.closeAllConnections` doesn't reach.
+ */
+const connections = new WeakMap<Server, Set<Socket>>();
+
+/**
+ * Stop accepting connections, drop the open ones, and wait for the server to
+ * close. The device never hangs up the glue's websocket by itself.
+ */
+export function close(server: Server): Promise<void> {
+    const closed = new Promise<void>((resolve, reject) =>
+        server.close((e) => (e ? reject(e) : resolve())),
+    );
+    for (const socket of connections.get(server) ?? []) {
+        socket.destroy();
+    }
+    return closed;
+}
+
+/**
+ * Start the HTTP server the glue's websocket is served from, and wait until
+ * it is listening so the bound address is known.
+ */
+export async function listen(options: GlueServerOptions): Promise<Server> {
+    const server = createServer();
+
+    const open = new Set<Socket>();
+    connections.set(server, open);
+    server.on("connection", (socket) => {
+        open.add(socket);
+        socket.once("close", () => open.delete(socket));
+    });
+
+    if (options.socket !== undefined) {
+        // A socket left behind by an earlier run would make listen fail.
+        const existing = await stat(options.socket).catch(() => null);
+        if (existing?.isSocket()) {
+            await rm(options.socket);
+        }
+    }
+
+    await new Promise<void>((resolve, reject) => {
+        server.once("error", reject);
+        const listening = () => {
+            server.off("error", reject);
+            resolve();
+        };
+
+        if (options.socket !== undefined) {
+            server.listen(options.socket, listening);
+        } else {
+            server.listen(options.port, options.host, listening);
+        }
+    });
+
+    logger.info(`glue listening on ${describe(server.address())}`);
+    return server;
+}
+
+function describe(address: string | AddressInfo | null): string {
+    if (address === null || typeof address === "string") {
+        return String(address);
+    }
+    return `${address.address}:${address.port}`;
+}
+
+/**
+ * The `ws://` URL the device should connect to, built from the address the
+ * server actually bound, unless `advertise` overrides it.
+ */
+export function glueUrl(
+    address: string | AddressInfo | null,
+    advertise?: string,
+): string {
+    if (advertise !== undefined) {
+        const url = new URL(advertise);
+        if (url.protocol !== "ws:" && url.protocol !== "wss:") {
+            throw new Error(`glue URL must be ws:// or wss://, not ${url}`);
+        }
+        return url.toString();
+    }
+
+    if (address === null) {
+        throw new Error("glue server isn't listening");
+    }
+
+    if (typeof address === "string") {
+        throw new Error(
+            `the device can't reach the unix socket ${address} directly; advertise a ws:// URL that forwards to it`,
+        );
+    }
+
+    if (WILDCARDS.has(address.address)) {
+        // Listening on `::` accepts IPv4 too, and `adb reverse` only
+        // forwards the device's IPv4 loopback address.
+        return `ws://127.0.0.1:${address.port}/`;
+    }
+
+    const ipv6 = address.family === "IPv6";
+    const host = address.address;
+    return `ws://${ipv6 ? `[${host}]` : host}:${address.port}/`;
+}
@@ -0,0 +1,55 @@
+import { DOMParser } from "@xmldom/xmldom";
+import { createHash } from "node:crypto";
+import xpath from "xpath";
+
+/**
+ * A parsed copy of the UI hierarchy, so XPath queries can be answered
+ * without a round trip to the device.
+ */
+export class Snapshot {
+    public readonly source: string;
+    public readonly hash: string;
+    private readonly document: Node;
+
+    private constructor(source: string, document: Node) {
+        this.source = source;
+        this.hash = Snapshot.hash(source);
+        this.document = document;
+    }
+
+    public static hash(source: string): string {
+        return createHash("sha1").update(source).digest("hex");
+    }
+
+    public static parse(source: string): Snapshot {
+        const document = new DOMParser().parseFromString(
+            source,
+            "text/xml",
+        ) as unknown as Node;
+        return new Snapshot(source, document);
+    }
+
+    public select(expression: string): Element[] {
+        const nodes = xpath.select(expression, this.document);
+        if (!Array.isArray(nodes)) {
+            throw new Error(`xpath doesn't select nodes: ${expression}`);
+        }
+        return nodes.filter((n): n is Element => xpath.isElement(n));
+    }
+
+    public exists(expression: string): boolean {
+        return this.select(expression).length > 0;
+    }
+
+    /**
+     * Read `attribute` from the first element matching `expression`, or
+     * `null` when nothing matches.
+     */
+    public attribute(expression: string, attribute: string): string | null {
+        const [element] = this.select(expression);
+        if (!element) {
+            return null;
+        }
+        return element.getAttribute(attribute);
+    }
+}
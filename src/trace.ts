@@ -0,0 +1,265 @@
+import { logger } from "./logger.js";
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { Browser } from "webdriverio";
+
+export type TraceKind = "lock" | "detect" | "event" | "action";
+
+export interface TraceEntry {
+    index: number;
+    kind: TraceKind;
+    name: string;
+
+    /** Wall clock time the step started, as an ISO 8601 string. */
+    time: string;
+
+    /** Milliseconds since the trace started. */
+    start: number;
+
+    /** Milliseconds the step took, for steps that span an operation. */
+    duration?: number;
+
+    error?: string;
+    detail?: unknown;
+
+    /** Page source file, relative to the trace directory. */
+    source?: string;
+
+    /** Screenshot file, relative to the trace directory. */
+    screenshot?: string;
+}
+
+/**
+ * Records each driver step, with what MetaMask was showing at the time, into
+ * a directory that can be browsed with the generated `index.html`.
+ */
+export class Tracer {
+    private readonly dir: string;
+    private readonly origin: number;
+    private readonly entries: TraceEntry[] = [];
+    private writing: Promise<void> = Promise.resolve();
+
+    private constructor(dir: string) {
+        this.dir = dir;
+        this.origin = performance.now();
+    }
+
+    public static async create(dir: string): Promise<Tracer> {
+        await mkdir(dir, { recursive: true });
+        logger.info(`writing trace to ${dir}`);
+        return new Tracer(dir);
+    }
+
+    private begin(kind: TraceKind, name: string, detail?: unknown) {
+        const entry: TraceEntry = {
+            index: this.entries.length,
+            kind,
+            name,
+            time: new Date().toISOString(),
+            start: Math.round(performance.now() - this.origin),
+        };
+
+        if (detail !== undefined) {
+            entry.detail = detail;
+        }
+
+        this.entries.push(entry);
+        return entry;
+    }
+
+    private prefix(entry: TraceEntry): string {
+        return `${String(entry.index).padStart(5, "0")}-${entry.kind}`;
+    }
+
+    /**
+     * Save the page source and a screenshot alongside `entry`. Failures are
+     * noted on the entry rather than thrown, so tracing can't break a run.
+     */
+    private async attach(
+        entry: TraceEntry,
+        driver: Browser,
+        source?: string,
+    ): Promise<void> {
+        const prefix = this.prefix(entry);
+
+        try {
+            const xml = source ?? (await driver.getPageSource());
+            entry.source = `${prefix}.xml`;
+            await writeFile(join(this.dir, entry.source), xml);
+
+            const png = await driver.takeScreenshot();
+            entry.screenshot = `${prefix}.png`;
+            await writeFile(join(this.dir, entry.screenshot), png, "base64");
+        } catch (e) {
+            entry.error ??= `capture failed: ${String(e)}`;
+        }
+    }
+
+    /**
+     * Record a step with no device state, like an emitted glue event.
+     */
+    public note(kind: TraceKind, name: string, detail?: unknown): void {
+        this.begin(kind, name, detail);
+        this.flush();
+    }
+
+    /**
+     * Record a step along with what the device is showing. `source` may be
+     * passed when the page source was already fetched.
+     */
+    public async capture(
+        driver: Browser,
+        kind: TraceKind,
+        name: string,
+        detail?: unknown,
+        source?: string,
+    ): Promise<void> {
+        const entry = this.begin(kind, name, detail);
+        await this.attach(entry, driver, source);
+        this.flush();
+    }
+
+    /**
+     * Time `callback`, then record what the device showed when it finished.
+     */
+    public async span<T>(
+        driver: Browser,
+        kind: TraceKind,
+        name: string,
+        callback: () => Promise<T>,
+        detail?: unknown,
+    ): Promise<T> {
+        const entry = this.begin(kind, name, detail);
+        const started = performance.now();
+
+        try {
+            return await callback();
+        } catch (e) {
+            entry.error = String(e);
+            throw e;
+        } finally {
+            entry.duration = Math.round(performance.now() - started);
+            await this.attach(entry, driver);
+            this.flush();
+        }
+    }
+
+    /**
+     * Rewrite the timeline and viewer. Writes are queued so they never
+     * interleave.
+     */
+    private flush(): void {
+        // Event payloads may carry bigints, which JSON can't represent.
+        const json = JSON.stringify(
+            this.entries,
+            (_, v: unknown) => (typeof v === "bigint" ? v.toString() : v),
+            4,
+        );
+        const html = renderViewer(this.entries);
+
+        this.writing = this.writing
+            .then(async () => {
+                await writeFile(join(this.dir, "trace.json"), json);
+                await writeFile(join(this.dir, "index.html"), html);
+            })
+            .catch((e) => logger.warn("couldn't write trace:", e));
+    }
+
+    public async close(): Promise<void> {
+        this.flush();
+        await this.writing;
+    }
+}
+
+function renderViewer(entries: readonly TraceEntry[]): string {
+    // Escape "<" so the data can't close the script element.
+    const data = JSON.stringify(entries, (_, v: unknown) =>
+        typeof v === "bigint" ? v.toString() : v,
+    ).replace(/</g, "\\u003c");
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>MetaMask Glue Trace</title>
+<style>
+body { margin: 0; display: flex; height: 100vh; font: 14px sans-serif; }
+#steps { width: 22em; overflow-y: auto; border-right: 1px solid #ccc; margin: 0; padding: 0; list-style: none; }
+#steps li { padding: 0.4em 0.6em; cursor: pointer; border-bottom: 1px solid #eee; }
+#steps li.selected { background: #dde8ff; }
+#steps li.error { color: #b00; }
+#steps .kind { display: inline-block; width: 4.5em; color: #666; }
+#detail { flex: 1; display: flex; overflow: hidden; }
+#info { flex: 1; padding: 1em; overflow: auto; }
+#shot { max-height: 100%; border-left: 1px solid #ccc; }
+pre { white-space: pre-wrap; word-break: break-all; }
+</style>
+</head>
+<body>
+<ul id="steps"></ul>
+<div id="detail"><div id="info"></div><img id="shot" alt=""></div>
+<script>
+const entries = ${data};
+const steps = document.getElementById("steps");
+const info = document.getElementById("info");
+const shot = document.getElementById("shot");
+let selected = 0;
+
+function text(tag, content) {
+    const el = document.createElement(tag);
+    el.textContent = content;
+    return el;
+}
+
+function show(index) {
+    const entry = entries[index];
+    if (!entry) return;
+    selected = index;
+    for (const li of steps.children) li.classList.remove("selected");
+    steps.children[index].classList.add("selected");
+    steps.children[index].scrollIntoView({ block: "nearest" });
+
+    info.replaceChildren();
+    info.append(text("h2", entry.kind + ": " + entry.name));
+    let timing = entry.time + " (+" + entry.start + " ms)";
+    if (entry.duration !== undefined) timing += ", took " + entry.duration + " ms";
+    info.append(text("p", timing));
+    if (entry.error) info.append(text("pre", entry.error));
+    if (entry.detail !== undefined) info.append(text("pre", JSON.stringify(entry.detail, null, 2)));
+    if (entry.source) {
+        const a = text("a", "Page source");
+        a.href = entry.source;
+        info.append(a);
+    }
+
+    // Show the most recent screenshot at or before this step.
+    let image = "";
+    for (let ii = index; ii >= 0; ii--) {
+        if (entries[ii].screenshot) {
+            image = entries[ii].screenshot;
+            break;
+        }
+    }
+    shot.src = image;
+}
+
+entries.forEach((entry, index) => {
+    const li = document.createElement("li");
+    li.append(text("span", entry.kind), entry.name);
+    li.firstChild.className = "kind";
+    if (entry.error) li.classList.add("error");
+    li.addEventListener("click", () => show(index));
+    steps.append(li);
+});
+
+document.addEventListener("keydown", (ev) => {
+    if (ev.key === "ArrowDown" || ev.key === "j") show(selected + 1);
+    if (ev.key === "ArrowUp" || ev.key === "k") show(selected - 1);
+});
+
+show(0);
+</script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,107 @@
+import { secp256k1 } from "@noble/curves/secp256k1";
+import { keccak_256 } from "@noble/hashes/sha3";
+import { bytesToHex, utf8ToBytes } from "@noble/hashes/utils";
+import { HDKey } from "@scure/bip32";
+import { mnemonicToSeedSync, validateMnemonic } from "@scure/bip39";
+import { wordlist } from "@scure/bip39/wordlists/english";
+
+export interface WalletOptions {
+    seed: string;
+    password: string;
+}
+
+export const DEFAULT_WALLET_OPTIONS: Readonly<WalletOptions> = {
+    seed: "basket cradle actor pizza similar liar suffer another all fade flag brave",
+    password: "ethereum1",
+};
+
+/**
+ * Fill in any missing wallet options from `METAMASK_SEED` and
+ * `METAMASK_PASSWORD`, then from the defaults.
+ */
+export function resolveWalletOptions(
+    options: Partial<WalletOptions>,
+    env: NodeJS.ProcessEnv,
+): WalletOptions {
+    const seed = (
+        options.seed ??
+        env.METAMASK_SEED ??
+        DEFAULT_WALLET_OPTIONS.seed
+    )
+        .trim()
+        .split(/\s+/)
+        .join(" ");
+
+    if (!validateMnemonic(seed, wordlist)) {
+        throw new Error("seed phrase is not a valid BIP-39 mnemonic");
+    }
+
+    const password =
+        options.password ??
+        env.METAMASK_PASSWORD ??
+        DEFAULT_WALLET_OPTIONS.password;
+
+    if (password.length < 8) {
+        // MetaMask refuses to create a wallet with a shorter password.
+        throw new Error("password must be at least 8 characters long");
+    }
+
+    return { seed, password };
+}
+
+/**
+ * Apply the EIP-55 mixed-case checksum to a lowercase hex address.
+ */
+export function toChecksumAddress(address: string): string {
+    const lower = address.toLowerCase().replace(/^0x/, "");
+    const hash = bytesToHex(keccak_256(utf8ToBytes(lower)));
+
+    let output = "0x";
+    for (let ii = 0; ii < lower.length; ii++) {
+        output +=
+            parseInt(hash[ii], 16) >= 8 ? lower[ii].toUpperCase() : lower[ii];
+    }
+
+    return output;
+}
+
+/**
+ * Derive the lowercase addresses MetaMask creates from `seed`, using the
+ * BIP-44 path `m/44'/60'/0'/0/<index>`.
+ */
+export function deriveAddresses(seed: string, count: number): string[] {
+    const root = HDKey.fromMasterSeed(mnemonicToSeedSync(seed));
+    const addresses = [];
+
+    for (let index = 0; index < count; index++) {
+        const child = root.derive(`m/44'/60'/0'/0/${index}`);
+        if (!child.publicKey) {
+            throw new Error(`couldn't derive account ${index}`);
+        }
+
+        const publicKey = secp256k1.ProjectivePoint.fromHex(
+            child.publicKey,
+        ).toRawBytes(false);
+
+        const hash = keccak_256(publicKey.subarray(1));
+        addresses.push(`0x${bytesToHex(hash.subarray(-20))}`);
+    }
+
+    return addresses;
+}
+
+/**
+ * Name MetaMask gives the account derived at `index`, unless it is renamed.
+ */
+export function accountName(index: number): string {
+    return `Account ${index + 1}`;
+}
+
+/**
+ * Shorten an address the same way MetaMask does in its dialogs, for example
+ * `0xb7B4...C8Cf`.
+ */
+export function abbreviateAddress(address: string): string {
+    const checksummed = toChecksumAddress(address);
+    return `${checksummed.slice(0, 6)}...${checksummed.slice(-4)}`;
+}
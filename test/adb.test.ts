@@ -0,0 +1,91 @@
+import { ReversePorts, adbPath, isLoopback, listDevices } from "../src/adb.js";
+import { describe, expect, it } from "vitest";
+
+function recorder(fail?: string) {
+    const calls: string[][] = [];
+    const run = (args: string[]) => {
+        calls.push(args);
+        return fail === undefined
+            ? Promise.resolve("")
+            : Promise.reject(new Error(fail));
+    };
+    return { calls, run };
+}
+
+describe("isLoopback", () => {
+    it("recognizes loopback hostnames", () => {
+        expect(isLoopback("localhost")).toBe(true);
+        expect(isLoopback("127.0.0.1")).toBe(true);
+        expect(isLoopback(new URL("http://[::1]:8545/").hostname)).toBe(true);
+        expect(isLoopback("10.0.2.2")).toBe(false);
+    });
+});
+
+describe("adbPath", () => {
+    it("prefers the android sdk", () => {
+        expect(adbPath({ ANDROID_HOME: "/sdk" })).toBe(
+            "/sdk/platform-tools/adb",
+        );
+        expect(adbPath({})).toBe("adb");
+    });
+});
+
+describe("listDevices", () => {
+    it("lists devices that are ready", async () => {
+        const output = [
+            "* daemon started successfully",
+            "List of devices attached",
+            "R58N123ABC\tdevice",
+            "emulator-5554\tdevice",
+            "0123456789\tunauthorized",
+            "",
+        ].join("\n");
+
+        const calls: string[][] = [];
+        const devices = await listDevices((args) => {
+            calls.push(args);
+            return Promise.resolve(output);
+        });
+
+        expect(calls).toEqual([["devices"]]);
+        expect(devices).toEqual(["R58N123ABC", "emulator-5554"]);
+    });
+});
+
+describe("ReversePorts", () => {
+    it("forwards loopback URLs once and removes them on close", async () => {
+        const { calls, run } = recorder();
+        const reverse = new ReversePorts(undefined, run);
+
+        expect(await reverse.forwardUrl("ws://127.0.0.1:3001/", "glue")).toBe(
+            true,
+        );
+        expect(await reverse.forwardUrl("http://localhost:3001/", "rpc")).toBe(
+            true,
+        );
+        expect(await reverse.forwardUrl("http://localhost/", "rpc")).toBe(true);
+        expect(
+            await reverse.forwardUrl("https://rpc.example.com/", "rpc"),
+        ).toBe(false);
+
+        await reverse.close();
+
+        expect(calls).toEqual([
+            ["reverse", "tcp:3001", "tcp:3001"],
+            ["reverse", "tcp:80", "tcp:80"],
+            ["reverse", "--remove", "tcp:3001"],
+            ["reverse", "--remove", "tcp:80"],
+        ]);
+    });
+
+    it("reports when forwarding isn't possible", async () => {
+        const { calls, run } = recorder("more than one device/emulator");
+        const reverse = new ReversePorts(undefined, run);
+
+        expect(await reverse.forward(3001, "glue")).toBe(false);
+
+        // Nothing was forwarded, so there's nothing to remove.
+        await reverse.close();
+        expect(calls).toHaveLength(1);
+    });
+});
@@ -0,0 +1,87 @@
+import { Detector, DetectorRegistry } from "../src/detectors.js";
+import { Snapshot } from "../src/snapshot.js";
+import { describe, expect, it } from "vitest";
+
+const snapshot = Snapshot.parse(
+    '<hierarchy><android.widget.TextView text="Confirm" /></hierarchy>',
+);
+
+function detector(
+    name: string,
+    fields: Partial<Omit<Detector, "name">> = {},
+): Detector {
+    return {
+        name,
+        priority: 0,
+        specificity: 1,
+        detect: () => true,
+        emit: () => Promise.resolve({ uuid: name, modal: name }),
+        ...fields,
+    };
+}
+
+describe("DetectorRegistry", () => {
+    it("prefers the highest priority, then the highest specificity", () => {
+        const registry = new DetectorRegistry();
+        registry.register(detector("general", { specificity: 1 }));
+        registry.register(detector("narrow", { specificity: 3 }));
+        registry.register(detector("urgent", { priority: 1 }));
+
+        expect(registry.match(snapshot)?.name).toBe("urgent");
+
+        registry.unregister("urgent");
+        expect(registry.match(snapshot)?.name).toBe("narrow");
+    });
+
+    it("breaks ties by registration order", () => {
+        const registry = new DetectorRegistry();
+        registry.register(detector("first"));
+        registry.register(detector("second"));
+
+        expect(registry.match(snapshot)?.name).toBe("first");
+        expect(
+            registry.best([detector("b"), detector("a"), detector("c")])?.name,
+        ).toBe("b");
+    });
+
+    it("only considers detectors that match the snapshot", () => {
+        const registry = new DetectorRegistry();
+        registry.register(
+            detector("missing", {
+                priority: 1,
+                detect: (snap) => snap.exists('//*[@text="Reject"]'),
+            }),
+        );
+        registry.register(
+            detector("present", {
+                detect: (snap) => snap.exists('//*[@text="Confirm"]'),
+            }),
+        );
+
+        expect(registry.match(snapshot)?.name).toBe("present");
+
+        registry.unregister("present");
+        expect(registry.match(snapshot)).toBeNull();
+    });
+
+    it("rejects a second detector with the same name", () => {
+        const registry = new DetectorRegistry();
+        registry.register(detector("send-transaction"));
+
+        expect(() =>
+            registry.register(detector("send-transaction", { priority: 1 })),
+        ).toThrow('detector "send-transaction" already registered');
+        expect(registry.names).toEqual(["send-transaction"]);
+    });
+
+    it("frees the name of an unregistered detector", () => {
+        const registry = new DetectorRegistry();
+        registry.register(detector("personal-sign"));
+
+        expect(registry.unregister("personal-sign")).toBe(true);
+        expect(registry.unregister("personal-sign")).toBe(false);
+
+        registry.register(detector("personal-sign"));
+        expect(registry.names).toEqual(["personal-sign"]);
+    });
+});
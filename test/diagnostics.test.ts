@@ -0,0 +1,116 @@
+import {
+    Diagnostics,
+    StepFailure,
+    failedSelector,
+} from "../src/diagnostics.js";
+import { FakeBrowser, fixture } from "./fake-browser.js";
+import { mkdtemp, readFile, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+let dir: string;
+
+beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "glue-artifacts-"));
+});
+
+afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+});
+
+describe("failedSelector", () => {
+    it("reads the selector from webdriverio errors", () => {
+        expect(
+            failedSelector(
+                new Error(
+                    `Can't call click on element with selector "//*[@text='Next']" because element wasn't found`,
+                ),
+            ),
+        ).toBe("//*[@text='Next']");
+
+        expect(
+            failedSelector(
+                new Error(
+                    `element ("//*[@text='Next']") still not existing after 10000ms`,
+                ),
+            ),
+        ).toBe("//*[@text='Next']");
+    });
+
+    it("returns null for other errors", () => {
+        expect(failedSelector(new Error("session deleted"))).toBeNull();
+        expect(failedSelector("oops")).toBeNull();
+    });
+});
+
+describe("Diagnostics", () => {
+    it("saves the device state when a step fails", async () => {
+        const browser = new FakeBrowser(
+            { wallet: { source: fixture("wallet") } },
+            "wallet",
+        );
+        browser.logcat = ["first", "second"];
+
+        const diagnostics = new Diagnostics(dir, "io.metamask");
+        const failure = await diagnostics.collect(
+            browser.asBrowser(),
+            "setup",
+            await browser
+                .$("//*[@text='Missing']")
+                .click()
+                .catch((e: unknown) => e),
+        );
+
+        expect(failure).toBeInstanceOf(StepFailure);
+        expect(failure.step).toBe("setup");
+        expect(failure.selector).toBe("//*[@text='Missing']");
+        expect(failure.artifacts).not.toBeNull();
+
+        const [name] = await readdir(dir);
+        expect(join(dir, name)).toBe(failure.artifacts);
+
+        const files = await readdir(join(dir, name));
+        expect(files.sort()).toEqual([
+            "logcat.txt",
+            "screenshot.png",
+            "source.xml",
+            "summary.json",
+        ]);
+
+        const logcat = await readFile(join(dir, name, "logcat.txt"), "utf8");
+        expect(logcat).toContain("second");
+
+        const summary = JSON.parse(
+            await readFile(join(dir, name, "summary.json"), "utf8"),
+        ) as Record<string, unknown>;
+        expect(summary).toMatchObject({
+            step: "setup",
+            selector: "//*[@text='Missing']",
+            appState: 4,
+        });
+    });
+
+    it("passes through failures that were already collected", async () => {
+        const browser = new FakeBrowser(
+            { wallet: { source: fixture("wallet") } },
+            "wallet",
+        );
+        const diagnostics = new Diagnostics(null, "io.metamask");
+
+        const inner = await diagnostics.collect(
+            browser.asBrowser(),
+            "requestAccounts",
+            new Error("boom"),
+        );
+        const outer = await diagnostics.collect(
+            browser.asBrowser(),
+            "watchWindows",
+            inner,
+        );
+
+        expect(outer).toBe(inner);
+        expect(inner.artifacts).toBeNull();
+        expect(inner.message).toBe("requestAccounts failed: boom");
+    });
+});
@@ -0,0 +1,56 @@
+import { StepFailure } from "../src/diagnostics.js";
+import {
+    DeviceUnreachableError,
+    EXIT_CODES,
+    InterruptedError,
+    ReportTimeoutError,
+    UnexpectedModalError,
+    categorize,
+} from "../src/errors.js";
+import { describe, expect, it } from "vitest";
+
+describe("categorize", () => {
+    it("prefers the cause of a step failure", () => {
+        const modal = new StepFailure(
+            "sendTransaction",
+            new UnexpectedModalError("gone"),
+            null,
+            null,
+        );
+        expect(categorize(modal)).toBe("unexpected-modal");
+
+        const refused = new StepFailure(
+            "setup",
+            new Error("connect ECONNREFUSED 127.0.0.1:4723"),
+            null,
+            null,
+        );
+        expect(categorize(refused)).toBe("device-unreachable");
+    });
+
+    it("falls back to the failed step and selector", () => {
+        const setup = new StepFailure("setup", new Error("x"), "//a", null);
+        expect(categorize(setup)).toBe("setup");
+
+        const action = new StepFailure("launch", new Error("x"), "//a", null);
+        expect(categorize(action)).toBe("selector-not-found");
+
+        const other = new StepFailure("launch", new Error("x"), null, null);
+        expect(categorize(other)).toBe("unknown");
+    });
+
+    it("recognizes errors thrown outside of steps", () => {
+        expect(categorize(new DeviceUnreachableError("no appium"))).toBe(
+            "device-unreachable",
+        );
+        expect(categorize(new ReportTimeoutError(60))).toBe("report-timeout");
+        expect(categorize(new InterruptedError("SIGINT"))).toBe("interrupted");
+        expect(categorize("oops")).toBe("unknown");
+    });
+
+    it("gives each category its own exit code", () => {
+        const codes = Object.values(EXIT_CODES);
+        expect(new Set(codes).size).toBe(codes.length);
+        expect(codes).not.toContain(0);
+    });
+});
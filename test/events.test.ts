@@ -0,0 +1,83 @@
+import { UnexpectedModalError } from "../src/errors.js";
+import { EventQueue } from "../src/events.js";
+import { describe, expect, it } from "vitest";
+
+function clock(): { now: () => number; advance: (ms: number) => void } {
+    let time = 0;
+    return {
+        now: () => time,
+        advance: (ms) => {
+            time += ms;
+        },
+    };
+}
+
+describe("EventQueue", () => {
+    it("follows a request from detection to resolution", () => {
+        const events = new EventQueue();
+
+        const event = events.detect("send-transaction");
+        expect(event.state).toBe("detected");
+        expect(events.front).toBeNull();
+
+        events.emitted(event, "a");
+        expect(events.front).toBe(event);
+
+        expect(events.claim("a")).toBe(event);
+        expect(event.state).toBe("actioned");
+
+        events.resolve(event);
+        expect(event.state).toBe("resolved");
+        expect(events.front).toBeNull();
+        expect(events.outstanding).toEqual([]);
+    });
+
+    it("lets a failed action be retried", () => {
+        const events = new EventQueue();
+        events.emitted(events.detect("personal-sign"), "a");
+
+        const event = events.claim("a");
+        events.release(event);
+
+        expect(event.state).toBe("emitted");
+        expect(events.claim("a")).toBe(event);
+    });
+
+    it("only lets the request on screen be answered", () => {
+        const events = new EventQueue();
+        events.emitted(events.detect("personal-sign"), "a");
+        events.emitted(events.detect("typed-sign"), "b");
+
+        expect(events.outstanding.map((e) => e.uuid)).toEqual(["a", "b"]);
+        expect(() => events.claim("a")).toThrow(/no longer on screen/);
+        expect(() => events.claim("missing")).toThrow(UnexpectedModalError);
+        expect(events.claim("b").modal).toBe("typed-sign");
+        expect(() => events.claim("b")).toThrow(/already actioned/);
+    });
+
+    it("expires requests that wait too long", () => {
+        const time = clock();
+        const events = new EventQueue(1000, time.now);
+
+        events.emitted(events.detect("connect-account"), "a");
+        time.advance(500);
+        events.emitted(events.detect("connect-account"), "b");
+        const claimed = events.claim("b");
+
+        time.advance(600);
+        const expired = events.expire();
+
+        expect(expired.map((e) => e.uuid)).toEqual(["a"]);
+        expect(expired[0].state).toBe("expired");
+        expect(claimed.state).toBe("actioned");
+        expect(() => events.claim("a")).toThrow(/already expired/);
+    });
+
+    it("refuses transitions the state machine doesn't allow", () => {
+        const events = new EventQueue();
+        const event = events.detect("add-network");
+        events.abandon(event);
+
+        expect(() => events.emitted(event, "a")).toThrow(/can't go from/);
+    });
+});
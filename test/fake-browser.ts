@@ -0,0 +1,301 @@
+import { Snapshot } from "../src/snapshot.js";
+import { readFileSync } from "node:fs";
+import { Browser } from "webdriverio";
+
+/**
+ * Load a `uiautomator` hierarchy dump from `test/fixtures`.
+ */
+export function fixture(name: string): string {
+    return readFileSync(new URL(`./fixtures/${name}.xml`, import.meta.url), {
+        encoding: "utf8",
+    });
+}
+
+export interface FakeScreen {
+    /**
+     * The UI hierarchy shown while this screen is active.
+     */
+    source: string;
+
+    /**
+     * Screen to show after clicking an element, keyed by the exact XPath the
+     * glue uses to find that element.
+     */
+    transitions?: Record<string, string>;
+
+    /**
+     * Screen the system back button leads to.
+     */
+    back?: string;
+}
+
+export interface Interaction {
+    screen: string;
+    xpath: string;
+    action: "click" | "clear" | "input";
+    value?: string;
+}
+
+/**
+ * Worded like webdriverio's own error, so the selector can be recovered from
+ * the message.
+ */
+class NoSuchElementError extends Error {
+    constructor(command: string, screen: string, xpath: string) {
+        super(
+            `Can't call ${command} on element with selector "${xpath}" because element wasn't found (screen "${screen}")`,
+        );
+        this.name = "NoSuchElementError";
+    }
+}
+
+/**
+ * Run `fn`, turning anything it throws into a rejected promise like a real
+ * webdriver command would.
+ */
+function attempt<T>(fn: () => T): Promise<T> {
+    return new Promise((resolve) => resolve(fn()));
+}
+
+class FakeElement {
+    private readonly browser: FakeBrowser;
+    private readonly xpath: string;
+
+    constructor(browser: FakeBrowser, xpath: string) {
+        this.browser = browser;
+        this.xpath = xpath;
+    }
+
+    private require(command: string): void {
+        if (!this.browser.snapshot().exists(this.xpath)) {
+            throw new NoSuchElementError(
+                command,
+                this.browser.current,
+                this.xpath,
+            );
+        }
+    }
+
+    public isExisting(): Promise<boolean> {
+        return attempt(() => this.browser.snapshot().exists(this.xpath));
+    }
+
+    public waitForExist(): Promise<true> {
+        return attempt(() => {
+            this.require("waitForExist");
+            return true;
+        });
+    }
+
+    public waitForEnabled(): Promise<true> {
+        return attempt(() => {
+            this.require("waitForEnabled");
+            const snapshot = this.browser.snapshot();
+            if (snapshot.attribute(this.xpath, "enabled") === "false") {
+                throw new Error(`element never became enabled: ${this.xpath}`);
+            }
+            return true;
+        });
+    }
+
+    public getAttribute(name: string): Promise<string> {
+        return attempt(() => {
+            this.require("getAttribute");
+            const snapshot = this.browser.snapshot();
+            return snapshot.attribute(this.xpath, name) ?? "";
+        });
+    }
+
+    public click(): Promise<void> {
+        return attempt(() => {
+            this.require("click");
+            this.browser.record(this.xpath, "click");
+
+            const next = this.browser.screen().transitions?.[this.xpath];
+            if (next !== undefined) {
+                this.browser.show(next);
+            }
+        });
+    }
+
+    public clearValue(): Promise<void> {
+        return attempt(() => {
+            this.require("clearValue");
+            this.browser.record(this.xpath, "clear");
+        });
+    }
+
+    public addValue(value: string): Promise<void> {
+        return attempt(() => {
+            this.require("addValue");
+            this.browser.record(this.xpath, "input", value);
+        });
+    }
+}
+
+/**
+ * Stands in for a webdriverio `Browser` connected to appium, answering
+ * queries from recorded UI hierarchies instead of a real device.
+ */
+export class FakeBrowser {
+    public readonly screens: Map<string, FakeScreen>;
+    public readonly interactions: Interaction[] = [];
+    public readonly deepLinks: { url: string; package: string }[] = [];
+
+    /**
+     * Screen to show when a deep link is opened, like the page it leads to.
+     */
+    public deepLinkScreen: string | null = null;
+    public current: string;
+    public appState = 4;
+    public appVersion = "7.30.0";
+    public deleted = false;
+
+    /**
+     * Rejects `deleteSession` with this, like when the device has gone away.
+     */
+    public deleteError: Error | null = null;
+    public readonly cleared: string[] = [];
+    public logcat: string[] = [];
+
+    constructor(screens: Record<string, FakeScreen>, initial: string) {
+        this.screens = new Map(Object.entries(screens));
+        this.current = initial;
+        this.screen();
+    }
+
+    public asBrowser(): Browser {
+        return this as unknown as Browser;
+    }
+
+    public screen(): FakeScreen {
+        const screen = this.screens.get(this.current);
+        if (!screen) {
+            throw new Error(`unknown screen "${this.current}"`);
+        }
+        return screen;
+    }
+
+    public show(name: string): void {
+        this.current = name;
+        this.screen();
+    }
+
+    public snapshot(): Snapshot {
+        return Snapshot.parse(this.screen().source);
+    }
+
+    public record(
+        xpath: string,
+        action: Interaction["action"],
+        value?: string,
+    ): void {
+        this.interactions.push({ screen: this.current, xpath, action, value });
+    }
+
+    public clicked(xpath: string): boolean {
+        return this.interactions.some(
+            (i) => i.action === "click" && i.xpath === xpath,
+        );
+    }
+
+    public inputs(xpath: string): string[] {
+        return this.interactions
+            .filter((i) => i.action === "input" && i.xpath === xpath)
+            .map((i) => i.value ?? "");
+    }
+
+    public $(xpath: string): FakeElement {
+        return new FakeElement(this, xpath);
+    }
+
+    public $$(xpath: string) {
+        const count = this.snapshot().select(xpath).length;
+        const elements: FakeElement[] = [];
+        for (let ii = 1; ii <= count; ii++) {
+            elements.push(new FakeElement(this, `(${xpath})[${ii}]`));
+        }
+
+        return {
+            map: <R>(fn: (el: FakeElement) => Promise<R>): Promise<R[]> =>
+                Promise.all(elements.map(fn)),
+        };
+    }
+
+    public back(): Promise<void> {
+        return attempt(() => {
+            const previous = this.screen().back;
+            if (previous === undefined) {
+                throw new Error(`no back screen for "${this.current}"`);
+            }
+            this.show(previous);
+        });
+    }
+
+    public getPageSource(): Promise<string> {
+        return Promise.resolve(this.screen().source);
+    }
+
+    public takeScreenshot(): Promise<string> {
+        // A one pixel PNG; the tests only care that something was saved.
+        return Promise.resolve(
+            "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR4nGNgYGD4DwABBAEAwS2OUAAAAABJRU5ErkJggg==",
+        );
+    }
+
+    public getLogs(type: string): Promise<object[]> {
+        return attempt(() => {
+            if (type !== "logcat") {
+                throw new Error(`unsupported log type "${type}"`);
+            }
+            return this.logcat.map((message, ii) => ({
+                timestamp: ii,
+                level: "ALL",
+                message,
+            }));
+        });
+    }
+
+    public setTimeout(_timeouts: object): Promise<void> {
+        return Promise.resolve();
+    }
+
+    public deleteSession(): Promise<void> {
+        if (this.deleteError !== null) {
+            return Promise.reject(this.deleteError);
+        }
+        this.deleted = true;
+        return Promise.resolve();
+    }
+
+    public executeScript(script: string, args: unknown[]): Promise<unknown> {
+        const [options] = args as [Record<string, unknown> | undefined];
+
+        return attempt(() => {
+            switch (script) {
+                case "mobile: queryAppState":
+                    return this.appState;
+                case "mobile: startActivity":
+                    this.appState = 4;
+                    return null;
+                case "mobile: clearApp":
+                    this.cleared.push(String(options?.appId));
+                    this.appState = 1;
+                    return null;
+                case "mobile: deepLink":
+                    this.deepLinks.push({
+                        url: String(options?.url),
+                        package: String(options?.package),
+                    });
+                    if (this.deepLinkScreen !== null) {
+                        this.show(this.deepLinkScreen);
+                    }
+                    return null;
+                case "mobile: shell":
+                    return `Packages:\n    versionName=${this.appVersion}\n`;
+                default:
+                    throw new Error(`unsupported script "${script}"`);
+            }
+        });
+    }
+}
@@ -0,0 +1,1061 @@
+import { ReversePorts } from "../src/adb.js";
+import { StepFailure } from "../src/diagnostics.js";
+import { categorize } from "../src/errors.js";
+import {
+    MetaMaskAndroidGlue,
+    MetaMaskAndroidGlueOptions,
+} from "../src/glue.js";
+import { LogRecord, configureLogger } from "../src/logger.js";
+import { PROFILES } from "../src/selectors.js";
+import { DEFAULT_WALLET_OPTIONS } from "../src/wallet.js";
+import { FakeBrowser, FakeScreen, fixture } from "./fake-browser.js";
+import { SendTransactionEvent } from "@wallet-test-framework/glue";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+const selectors = PROFILES[PROFILES.length - 1].selectors;
+
+/**
+ * Screens for a fresh install, ending on `home` once onboarding is done.
+ */
+function onboarding(home: string): Record<string, FakeScreen> {
+    const s = selectors.onboarding;
+    return {
+        "onboarding-welcome": {
+            source: fixture("onboarding-welcome"),
+            transitions: { [s.getStarted]: "onboarding-wallet-setup" },
+        },
+        "onboarding-wallet-setup": {
+            source: fixture("onboarding-wallet-setup"),
+            transitions: { [s.importFromSeed]: "onboarding-metrics" },
+        },
+        "onboarding-metrics": {
+            source: fixture("onboarding-metrics"),
+            transitions: { [s.denyMetrics]: "onboarding-terms" },
+        },
+        "onboarding-terms": {
+            source: fixture("onboarding-terms"),
+            transitions: { [s.termsAccept]: "onboarding-import" },
+        },
+        "onboarding-import": {
+            source: fixture("onboarding-import"),
+            transitions: { [s.importSubmit]: "onboarding-success" },
+        },
+        "onboarding-success": {
+            source: fixture("onboarding-success"),
+            transitions: { [s.done]: home },
+        },
+    };
+}
+
+/**
+ * A connection request, with the account list it opens for reading.
+ */
+function connectAccount(): Record<string, FakeScreen> {
+    const s = selectors.connectAccount;
+    return {
+        "connect-account": {
+            source: fixture("connect-account"),
+            transitions: {
+                [s.edit]: "connect-account-edit",
+                [s.connect]: "wallet",
+                [s.cancel]: "wallet",
+            },
+        },
+        "connect-account-edit": {
+            source: fixture("connect-account-edit"),
+            transitions: { [s.back]: "connect-account" },
+        },
+    };
+}
+
+let glue: MetaMaskAndroidGlue | null = null;
+
+function start(
+    home: string,
+    screens: Record<string, FakeScreen>,
+    options: Partial<MetaMaskAndroidGlueOptions> = {},
+    initial = "onboarding-welcome",
+): { browser: FakeBrowser; glue: MetaMaskAndroidGlue } {
+    const browser = new FakeBrowser(
+        { ...onboarding(home), ...screens },
+        initial,
+    );
+
+    glue = new MetaMaskAndroidGlue({
+        wallet: DEFAULT_WALLET_OPTIONS,
+        connect: () => Promise.resolve(browser.asBrowser()),
+        ...options,
+    });
+
+    return { browser, glue };
+}
+
+/**
+ * Collect log records instead of writing them out, until the test ends.
+ */
+function captureLogs(): LogRecord[] {
+    const records: LogRecord[] = [];
+    configureLogger({
+        format: "json",
+        write: (line) => records.push(JSON.parse(line) as LogRecord),
+    });
+    return records;
+}
+
+afterEach(async () => {
+    // Stops the window watcher.
+    await glue?.close();
+    glue = null;
+
+    configureLogger({
+        format: "text",
+        write: (line) => process.stderr.write(line),
+    });
+});
+
+describe("MetaMaskAndroidGlue", () => {
+    it("imports the wallet during setup", async () => {
+        const { browser, glue } = start("wallet", {
+            wallet: { source: fixture("wallet") },
+        });
+
+        await glue.report({ format: "text", value: "" });
+
+        const s = selectors.onboarding;
+        expect(browser.current).toBe("wallet");
+        expect(browser.inputs(s.seedInput)).toEqual([
+            DEFAULT_WALLET_OPTIONS.seed,
+        ]);
+        expect(browser.inputs(s.newPassword)).toEqual([
+            DEFAULT_WALLET_OPTIONS.password,
+        ]);
+        expect(browser.inputs(s.confirmPassword)).toEqual([
+            DEFAULT_WALLET_OPTIONS.password,
+        ]);
+        expect(browser.clicked(s.biometricsSwitch)).toBe(true);
+        expect(browser.deleted).toBe(true);
+    });
+
+    it("clears MetaMask's data before importing when resetting", async () => {
+        const { browser, glue } = start(
+            "wallet",
+            { wallet: { source: fixture("wallet") } },
+            { walletState: "reset" },
+        );
+
+        await glue.report({ format: "text", value: "" });
+
+        expect(browser.cleared).toEqual(["io.metamask"]);
+        expect(browser.current).toBe("wallet");
+        expect(browser.clicked(selectors.onboarding.importSubmit)).toBe(true);
+    });
+
+    it("logs in to the existing wallet when reusing", async () => {
+        const s = selectors.unlock;
+        const { browser, glue } = start(
+            "wallet",
+            {
+                wallet: { source: fixture("wallet") },
+                login: {
+                    source: fixture("login"),
+                    transitions: { [s.unlockButton]: "wallet" },
+                },
+            },
+            { walletState: "reuse" },
+            "login",
+        );
+
+        await glue.report({ format: "text", value: "" });
+
+        expect(browser.current).toBe("wallet");
+        expect(browser.inputs(s.passwordInput)).toEqual([
+            DEFAULT_WALLET_OPTIONS.password,
+        ]);
+        expect(browser.clicked(selectors.onboarding.importFromSeed)).toBe(
+            false,
+        );
+    });
+
+    it("refuses to reuse a wallet MetaMask doesn't have", async () => {
+        const { glue } = start(
+            "wallet",
+            { wallet: { source: fixture("wallet") } },
+            { walletState: "reuse" },
+        );
+
+        const failure = await glue.reportReady.catch((e: unknown) => e);
+
+        expect(failure).toBeInstanceOf(StepFailure);
+        expect(failure).toMatchObject({ step: "setup" });
+        expect(String(failure)).toMatch(/no wallet to reuse/);
+    });
+
+    it("ends the session when the selector profile is unknown", async () => {
+        const { browser, glue } = start(
+            "wallet",
+            { wallet: { source: fixture("wallet") } },
+            { selectorProfile: "1.0" },
+        );
+
+        const failure = await glue.reportReady.catch((e: unknown) => e);
+
+        expect(String(failure)).toMatch(/unknown selector profile "1\.0"/);
+        expect(browser.deleted).toBe(true);
+    });
+
+    it("checks the wallet's account against the seed phrase", async () => {
+        const { glue } = start(
+            "wallet",
+            { wallet: { source: fixture("wallet") } },
+            {
+                wallet: {
+                    ...DEFAULT_WALLET_OPTIONS,
+                    seed: "test test test test test test test test test test test junk",
+                },
+            },
+        );
+
+        const failure = await glue.reportReady.catch((e: unknown) => e);
+
+        expect(failure).toBeInstanceOf(StepFailure);
+        expect(failure).toMatchObject({ step: "setup" });
+        expect(String(failure)).toMatch(
+            /account is 0xb7B4\.\.\.C8Cf, but the seed phrase's first account is 0xf39F\.\.\.2266/,
+        );
+    });
+
+    it("reports and approves a connection request", async () => {
+        const s = selectors.connectAccount;
+        const { browser, glue } = start("connect-account", {
+            ...connectAccount(),
+            wallet: { source: fixture("wallet") },
+        });
+
+        const event = await glue.next("requestaccounts");
+        expect(event.accounts).toEqual([
+            "0xb7b4d68047536a87f0926a76dd0b96b3a044c8cf",
+        ]);
+
+        await glue.requestAccounts({
+            id: event.id,
+            action: "approve",
+            accounts: [...event.accounts],
+        });
+
+        expect(browser.clicked(s.connect)).toBe(true);
+        expect(browser.current).toBe("wallet");
+    });
+
+    it("creates the accounts the wallet is missing", async () => {
+        const s = selectors.accounts;
+        const { browser, glue } = start(
+            "wallet",
+            {
+                wallet: {
+                    source: fixture("wallet"),
+                    transitions: { [s.open]: "account-list" },
+                },
+                "account-list": {
+                    source: fixture("account-list"),
+                    transitions: {
+                        [s.add]: "add-account",
+                        [s.account("0xb7B4...C8Cf")]: "wallet",
+                    },
+                },
+                "add-account": {
+                    source: fixture("add-account"),
+                    transitions: { [s.create]: "wallet" },
+                },
+            },
+            { accounts: 3 },
+        );
+
+        await glue.report({ format: "text", value: "" });
+
+        // The list already has two of the three accounts.
+        const created = browser.interactions.filter(
+            (i) => i.action === "click" && i.xpath === s.create,
+        );
+        expect(created).toHaveLength(1);
+        expect(browser.clicked(s.account("0xb7B4...C8Cf"))).toBe(true);
+        expect(browser.current).toBe("wallet");
+    });
+
+    it("connects a chosen subset of the accounts", async () => {
+        const s = selectors.connectAccount;
+        const { browser, glue } = start(
+            "wallet",
+            {
+                ...connectAccount(),
+                wallet: {
+                    source: fixture("wallet"),
+                    transitions: { [selectors.accounts.open]: "account-list" },
+                },
+                "account-list": {
+                    source: fixture("account-list"),
+                    transitions: {
+                        [selectors.accounts.account("0xb7B4...C8Cf")]:
+                            "connect-account",
+                    },
+                },
+            },
+            { accounts: 2 },
+        );
+        browser.screens.set("connect-account-edit", {
+            source: fixture("connect-account-edit"),
+            transitions: {
+                [s.back]: "connect-account",
+                [s.update]: "connect-account",
+            },
+        });
+
+        const event = await glue.next("requestaccounts");
+        expect(event.accounts).toEqual([
+            "0xb7b4d68047536a87f0926a76dd0b96b3a044c8cf",
+            "0x3b577469623d58299878b0676f2a217cb2bfaab7",
+        ]);
+
+        await expect(
+            glue.requestAccounts({
+                id: event.id,
+                action: "approve",
+                accounts: ["0x0000000000000000000000000000000000000001"],
+            }),
+        ).rejects.toThrow(/isn't in the request/);
+
+        // The failed approval leaves the request waiting for another.
+        await glue.requestAccounts({
+            id: event.id,
+            action: "approve",
+            accounts: ["0x3B577469623D58299878B0676F2A217CB2BFAAB7"],
+        });
+
+        // Account 1 was selected, and Account 2 wasn't.
+        expect(browser.clicked(s.row("0xb7B4...C8Cf"))).toBe(true);
+        expect(browser.clicked(s.row("0x3b57...aAb7"))).toBe(true);
+        expect(browser.clicked(s.update)).toBe(true);
+        expect(browser.clicked(s.connect)).toBe(true);
+    });
+
+    it("expires requests nobody answers and reports them again", async () => {
+        const s = selectors.connectAccount;
+        const { browser, glue } = start(
+            "connect-account",
+            { ...connectAccount(), wallet: { source: fixture("wallet") } },
+            { eventTimeout: 500 },
+        );
+
+        const first = await glue.next("requestaccounts");
+        const second = await glue.next("requestaccounts");
+        expect(second.id).not.toBe(first.id);
+
+        await expect(
+            glue.requestAccounts({
+                id: first.id,
+                action: "approve",
+                accounts: [...first.accounts],
+            }),
+        ).rejects.toThrow(/already expired/);
+        expect(browser.clicked(s.connect)).toBe(false);
+
+        await glue.requestAccounts({ id: second.id, action: "reject" });
+        expect(browser.clicked(s.cancel)).toBe(true);
+
+        await expect(
+            glue.requestAccounts({ id: second.id, action: "reject" }),
+        ).rejects.toThrow(/already resolved/);
+    });
+
+    it("opens the dapp in MetaMask's browser", async () => {
+        const { browser, glue } = start(
+            "wallet",
+            { wallet: { source: fixture("wallet") } },
+            { connectionMode: "in-app-browser" },
+        );
+
+        await glue.launch(
+            "https://example.com/tests#glue=ws://127.0.0.1:3001/",
+        );
+
+        expect(browser.deepLinks).toEqual([
+            {
+                url: "metamask://dapp/example.com/tests#glue=ws://127.0.0.1:3001/",
+                package: "io.metamask",
+            },
+        ]);
+
+        await expect(glue.launch("http://example.com/")).rejects.toThrow(
+            /https/,
+        );
+    });
+
+    it("hands off to MetaMask through a wallet chooser", async () => {
+        const s = selectors.launch;
+        const { browser, glue } = start(
+            "wallet",
+            {
+                ...connectAccount(),
+                wallet: { source: fixture("wallet") },
+                dapp: {
+                    source: fixture("dapp-walletconnect"),
+                    transitions: { [s.walletConnect]: "wallet-chooser" },
+                },
+                "wallet-chooser": {
+                    source: fixture("wallet-chooser"),
+                    transitions: { [s.metamask]: "connect-account" },
+                },
+            },
+            { browser: "firefox" },
+        );
+        browser.deepLinkScreen = "dapp";
+
+        const requested = glue.next("requestaccounts");
+        await glue.launch("https://example.com/");
+
+        expect(browser.deepLinks).toEqual([
+            { url: "https://example.com/", package: "org.mozilla.firefox" },
+        ]);
+        expect(browser.clicked(s.selectWallet)).toBe(false);
+        // The watcher picks up the connection screen once launch returns.
+        await requested;
+    });
+
+    it("hands off to MetaMask through Android's intent picker", async () => {
+        const s = selectors.launch;
+        const { browser, glue } = start("wallet", {
+            ...connectAccount(),
+            wallet: { source: fixture("wallet") },
+            dapp: {
+                source: fixture("dapp-walletconnect"),
+                transitions: { [s.walletConnect]: "intent-picker" },
+            },
+            "intent-picker": {
+                source: fixture("intent-picker"),
+                transitions: { [s.resolverOnce]: "connect-account" },
+            },
+        });
+        browser.deepLinkScreen = "dapp";
+
+        const requested = glue.next("requestaccounts");
+        await glue.launch("https://example.com/");
+
+        expect(browser.deepLinks[0].package).toBe("com.android.chrome");
+        expect(browser.clicked(s.resolverMetamask)).toBe(true);
+        // The watcher picks up the connection screen once launch returns.
+        await requested;
+    });
+
+    it("names the step and selector when an action fails", async () => {
+        const s = selectors.connectAccount;
+        const { browser, glue } = start("connect-account", {
+            wallet: { source: fixture("wallet") },
+            "connect-account": {
+                source: fixture("connect-account"),
+                transitions: { [s.edit]: "connect-account-edit" },
+            },
+            "connect-account-edit": {
+                source: fixture("connect-account-edit"),
+                transitions: { [s.back]: "connect-account" },
+            },
+        });
+
+        const event = await glue.next("requestaccounts");
+
+        // The request disappears before it can be approved.
+        browser.show("wallet");
+
+        const failure = await glue
+            .requestAccounts({
+                id: event.id,
+                action: "approve",
+                accounts: [...event.accounts],
+            })
+            .catch((e: unknown) => e);
+
+        expect(failure).toBeInstanceOf(StepFailure);
+        expect(failure).toMatchObject({
+            step: "requestAccounts",
+            selector: s.connect,
+        });
+    });
+
+    it("rejects the report when setup fails", async () => {
+        const { browser, glue } = start("wallet", {
+            wallet: { source: fixture("wallet") },
+        });
+
+        // Onboarding can't get past the terms of use.
+        browser.screens.set("onboarding-terms", {
+            source: fixture("wallet"),
+        });
+
+        const failure = await glue.reportReady.catch((e: unknown) => e);
+
+        expect(failure).toBeInstanceOf(StepFailure);
+        expect(failure).toMatchObject({ step: "setup" });
+        expect(categorize(failure)).toBe("setup");
+        expect(browser.deleted).toBe(true);
+    });
+
+    it("rejects the report when the watcher fails", async () => {
+        const { browser, glue } = start("connect-account", {
+            wallet: { source: fixture("wallet") },
+            // Editing the accounts leads nowhere, so the request can't be
+            // read.
+            "connect-account": { source: fixture("connect-account") },
+        });
+
+        const failure = await glue.reportReady.catch((e: unknown) => e);
+
+        expect(failure).toBeInstanceOf(StepFailure);
+        expect(failure).toMatchObject({ step: "watchWindows" });
+        expect(browser.deleted).toBe(true);
+    });
+
+    it("keeps the report when the session can't be ended", async () => {
+        const { browser, glue } = start("wallet", {
+            wallet: { source: fixture("wallet") },
+        });
+        browser.deleteError = new Error("device offline");
+
+        const report = { format: "text", value: "ok 1" };
+        await expect(glue.report(report)).resolves.toBeUndefined();
+        await expect(glue.reportReady).resolves.toBe(report);
+    });
+
+    it("closes quietly when the session can't be ended", async () => {
+        const { browser, glue } = start("connect-account", {
+            wallet: { source: fixture("wallet") },
+            "connect-account": { source: fixture("connect-account") },
+        });
+        browser.deleteError = new Error("device offline");
+
+        const failure = await glue.reportReady.catch((e: unknown) => e);
+
+        // The watcher's failure is reported, not the failed cleanup.
+        expect(failure).toBeInstanceOf(StepFailure);
+        expect(failure).toMatchObject({ step: "watchWindows" });
+        await expect(glue.close()).resolves.toBeUndefined();
+        expect(browser.deleted).toBe(false);
+    });
+
+    it("reports the details of a transaction", async () => {
+        const s = selectors.transaction;
+        const { browser, glue } = start("send-transaction", {
+            wallet: { source: fixture("wallet") },
+            "send-transaction": {
+                source: fixture("send-transaction"),
+                transitions: {
+                    [s.viewData]: "send-transaction-data",
+                    [s.confirm]: "wallet",
+                    [s.reject]: "wallet",
+                },
+            },
+            "send-transaction-data": {
+                source: fixture("send-transaction-data"),
+                transitions: { [s.closeData]: "send-transaction" },
+            },
+        });
+
+        const event = await glue.next("sendtransaction");
+        expect({
+            from: event.from,
+            to: event.to,
+            data: event.data,
+            value: event.value,
+        }).toEqual({
+            from: "0xb7b4d68047536a87f0926a76dd0b96b3a044c8cf",
+            to: "0x3b577469623d58299878b0676f2a217cb2bfaab7",
+            data: "0xdeadbeef",
+            value: "250000000000000000",
+        });
+
+        await glue.sendTransaction({ id: event.id, action: "reject" });
+
+        expect(browser.clicked(s.reject)).toBe(true);
+        expect(browser.clicked(s.confirm)).toBe(false);
+    });
+
+    it("reports a transaction sent from another account", async () => {
+        const s = selectors.transaction;
+        const { browser, glue } = start(
+            "wallet",
+            {
+                wallet: {
+                    source: fixture("wallet"),
+                    transitions: { [selectors.accounts.open]: "account-list" },
+                },
+                "account-list": {
+                    source: fixture("account-list"),
+                    transitions: {
+                        [selectors.accounts.account("0xb7B4...C8Cf")]:
+                            "send-transaction",
+                    },
+                },
+                "send-transaction": {
+                    source: fixture("send-transaction-other"),
+                    transitions: { [s.confirm]: "wallet" },
+                },
+            },
+            { accounts: 2 },
+        );
+
+        // Account 2 sends to Account 1, which is named on the screen too.
+        const event = await glue.next("sendtransaction");
+        expect({ from: event.from, to: event.to, data: event.data }).toEqual({
+            from: "0x3b577469623d58299878b0676f2a217cb2bfaab7",
+            to: "0xb7b4d68047536a87f0926a76dd0b96b3a044c8cf",
+            data: "0x",
+        });
+
+        await glue.sendTransaction({ id: event.id, action: "approve" });
+        expect(browser.clicked(s.confirm)).toBe(true);
+    });
+
+    it("reports and signs a transaction without sending it", async () => {
+        const s = selectors.transaction;
+        const { browser, glue } = start("sign-transaction", {
+            wallet: { source: fixture("wallet") },
+            "sign-transaction": {
+                source: fixture("sign-transaction"),
+                transitions: { [s.sign]: "wallet", [s.reject]: "wallet" },
+            },
+        });
+
+        const event = await glue.next("signtransaction");
+        expect({
+            from: event.from,
+            to: event.to,
+            data: event.data,
+            value: event.value,
+        }).toEqual({
+            from: "0xb7b4d68047536a87f0926a76dd0b96b3a044c8cf",
+            to: "0x3b577469623d58299878b0676f2a217cb2bfaab7",
+            data: "0x",
+            value: "100000000000000000",
+        });
+
+        await glue.signTransaction({ id: event.id, action: "approve" });
+
+        expect(browser.clicked(s.sign)).toBe(true);
+        expect(browser.clicked(s.reject)).toBe(false);
+    });
+
+    it("reports a request that looks just like the one before it", async () => {
+        const s = selectors.transaction;
+        const { browser, glue } = start("sign-transaction", {
+            wallet: { source: fixture("wallet") },
+            "sign-transaction": {
+                source: fixture("sign-transaction"),
+                transitions: { [s.sign]: "sign-transaction-again" },
+            },
+            "sign-transaction-again": {
+                source: fixture("sign-transaction"),
+                transitions: { [s.sign]: "wallet" },
+            },
+        });
+
+        const first = await glue.next("signtransaction");
+        await glue.signTransaction({ id: first.id, action: "approve" });
+
+        const second = await glue.next("signtransaction");
+        expect(second.id).not.toBe(first.id);
+        await glue.signTransaction({ id: second.id, action: "approve" });
+
+        expect(browser.current).toBe("wallet");
+    });
+
+    it("reports and signs typed data", async () => {
+        const s = selectors.typedSign;
+        const { browser, glue } = start("typed-sign", {
+            wallet: { source: fixture("wallet") },
+            "typed-sign": {
+                source: fixture("typed-sign"),
+                transitions: { [s.confirm]: "wallet", [s.cancel]: "wallet" },
+            },
+        });
+
+        const event = await glue.next("signmessage");
+        expect(JSON.parse(event.message)).toEqual({
+            domain: { Name: "Ether Mail", Version: "1", "Chain ID": "1" },
+            primaryType: "Mail",
+            message: {
+                Contents: "Hello, Bob!",
+                Wallet: "0xbBbBBBBbbBBBbbbBbbBbbbbBBbBbbbbBbBbbBBbB",
+            },
+        });
+
+        await glue.signMessage({ id: event.id, action: "approve" });
+
+        expect(browser.clicked(s.confirm)).toBe(true);
+        expect(browser.clicked(selectors.personalSign.confirm)).toBe(false);
+    });
+
+    it("reports a network switch and reads the chain after it", async () => {
+        const s = selectors.switchNetwork;
+        const logs = captureLogs();
+        const { browser, glue } = start("switch-network", {
+            wallet: { source: fixture("wallet") },
+            "switch-network": {
+                source: fixture("switch-network"),
+                transitions: { [s.approve]: "wallet-sepolia" },
+            },
+            "wallet-sepolia": { source: fixture("wallet-sepolia") },
+        });
+
+        const event = await glue.next("switchethereumchain");
+        expect(event.chainId).toBe("0xaa36a7");
+
+        await glue.switchEthereumChain({ id: event.id, action: "approve" });
+
+        expect(browser.clicked(s.approve)).toBe(true);
+        expect(browser.clicked(s.cancel)).toBe(false);
+        expect(logs.map((r) => r.message)).toContain(
+            "wallet is on chain 0xaa36a7",
+        );
+    });
+
+    it("answers a switch even when the chain can't be read", async () => {
+        const s = selectors.switchNetwork;
+        const logs = captureLogs();
+        const { browser, glue } = start("switch-network", {
+            wallet: { source: fixture("wallet") },
+            "switch-network": {
+                source: fixture("switch-network"),
+                transitions: { [s.cancel]: "switch-network-test-chain" },
+            },
+            "switch-network-test-chain": {
+                source: fixture("switch-network-test-chain"),
+            },
+        });
+
+        const event = await glue.next("switchethereumchain");
+        await expect(
+            glue.switchEthereumChain({ id: event.id, action: "reject" }),
+        ).resolves.toBeUndefined();
+
+        expect(browser.clicked(s.cancel)).toBe(true);
+        expect(
+            logs.some(
+                (r) =>
+                    r.level === "warn" &&
+                    r.message.startsWith("couldn't read the wallet's chain"),
+            ),
+        ).toBe(true);
+    });
+
+    it("leaves an added network with an unreadable chain ID unanswered", async () => {
+        const logs = captureLogs();
+        const { browser, glue } = start("add-network-request", {
+            wallet: { source: fixture("wallet") },
+            "add-network-request": {
+                source: fixture("add-network-request-formatted"),
+            },
+            "switch-network": { source: fixture("switch-network") },
+        });
+
+        await vi.waitFor(
+            () =>
+                expect(
+                    logs.some((r) =>
+                        r.message.startsWith(
+                            `can't report adding a network with chain ID "1,337"`,
+                        ),
+                    ),
+                ).toBe(true),
+            { timeout: 5000 },
+        );
+
+        // The watcher carries on with the next request.
+        browser.show("switch-network");
+        const event = await glue.next("switchethereumchain");
+        expect(event.chainId).toBe("0xaa36a7");
+    });
+
+    it("knows an added network only once it's approved", async () => {
+        const s = selectors.addNetwork;
+        const logs = captureLogs();
+        const { browser, glue } = start("add-network-request", {
+            wallet: { source: fixture("wallet") },
+            "add-network-request": {
+                source: fixture("add-network-request"),
+                transitions: { [s.approve]: "wallet", [s.cancel]: "wallet" },
+            },
+            "switch-network-test-chain": {
+                source: fixture("switch-network-test-chain"),
+                transitions: {
+                    [selectors.switchNetwork.approve]: "wallet-test-chain",
+                },
+            },
+            "wallet-test-chain": { source: fixture("wallet-test-chain") },
+        });
+
+        const switches: string[] = [];
+        glue.on("switchethereumchain", (e) => switches.push(e.chainId));
+
+        const rejected = await glue.next("addethereumchain");
+        expect({
+            chainId: rejected.chainId,
+            chainName: rejected.chainName,
+            rpcUrls: rejected.rpcUrls,
+            blockExplorerUrls: rejected.blockExplorerUrls,
+            nativeCurrency: rejected.nativeCurrency,
+        }).toEqual({
+            chainId: "0x539",
+            chainName: "Test Chain 0x539",
+            rpcUrls: ["http://127.0.0.1:8545"],
+            blockExplorerUrls: [],
+            nativeCurrency: { name: "TETH", symbol: "TETH", decimals: 18 },
+        });
+        await glue.addEthereumChain({ id: rejected.id, action: "reject" });
+        expect(browser.clicked(s.cancel)).toBe(true);
+
+        // Still unknown, so the switch is left unanswered.
+        browser.show("switch-network-test-chain");
+        await vi.waitFor(
+            () =>
+                expect(logs.map((r) => r.message)).toContain(
+                    `can't report a switch to unknown network "Test Chain 0x539", so it's left unanswered`,
+                ),
+            { timeout: 5000 },
+        );
+        expect(switches).toEqual([]);
+
+        browser.show("add-network-request");
+        const approved = await glue.next("addethereumchain");
+        await glue.addEthereumChain({ id: approved.id, action: "approve" });
+        expect(browser.clicked(s.approve)).toBe(true);
+
+        browser.show("switch-network-test-chain");
+        const event = await glue.next("switchethereumchain");
+        expect(event.chainId).toBe("0x539");
+
+        await glue.switchEthereumChain({ id: event.id, action: "approve" });
+        expect(logs.map((r) => r.message)).toContain(
+            "wallet is on chain 0x539",
+        );
+    });
+
+    it("uses a detector registered in place of a built-in one", async () => {
+        const s = selectors.transaction;
+        const { browser, glue } = start("send-transaction", {
+            wallet: { source: fixture("wallet") },
+            "send-transaction": {
+                source: fixture("send-transaction"),
+                transitions: { [s.confirm]: "wallet" },
+            },
+        });
+
+        // Unlike the built-in, this reports the transaction without opening
+        // its data.
+        glue.detectors.register({
+            name: "send-transaction",
+            priority: 0,
+            specificity: 3,
+            detect: (snapshot) => snapshot.exists(s.confirm),
+            emit: () => {
+                const uuid = "custom";
+                glue.emit(
+                    "sendtransaction",
+                    new SendTransactionEvent(uuid, {
+                        from: "0xb7b4d68047536a87f0926a76dd0b96b3a044c8cf",
+                        to: "0x3b577469623d58299878b0676f2a217cb2bfaab7",
+                        data: "0x",
+                        value: "0",
+                    }),
+                );
+                return Promise.resolve({ uuid, modal: "send-transaction" });
+            },
+        });
+
+        const event = await glue.next("sendtransaction");
+        expect(event.id).toBe("custom");
+        expect(browser.clicked(s.viewData)).toBe(false);
+
+        await glue.sendTransaction({ id: event.id, action: "approve" });
+        expect(browser.clicked(s.confirm)).toBe(true);
+    });
+
+    it("adds and selects a custom network", async () => {
+        const s = selectors.networks;
+        const adb: string[][] = [];
+        const reverse = new ReversePorts("R58N", (args) => {
+            adb.push(args);
+            return Promise.resolve("");
+        });
+        const { browser, glue } = start(
+            "wallet",
+            {
+                wallet: {
+                    source: fixture("wallet"),
+                    transitions: { [s.open]: "networks" },
+                },
+                networks: {
+                    source: fixture("networks"),
+                    transitions: { [s.addCustom]: "add-network" },
+                },
+                "add-network": {
+                    source: fixture("add-network"),
+                    transitions: { [s.confirmNetwork]: "wallet-network-added" },
+                },
+                "wallet-network-added": {
+                    source: fixture("wallet"),
+                    transitions: { [s.open]: "networks-test-chain" },
+                },
+                "networks-test-chain": {
+                    source: fixture("networks-test-chain"),
+                    transitions: {
+                        [s.select("Test Chain 0x539")]: "network-education",
+                    },
+                },
+                "network-education": {
+                    source: fixture("network-education"),
+                    transitions: { [s.educationClose]: "wallet-test-chain" },
+                },
+                "wallet-test-chain": { source: fixture("wallet-test-chain") },
+            },
+            { reverse },
+        );
+
+        await glue.activateChain({
+            chainId: "0x539",
+            rpcUrl: "http://127.0.0.1:8545/",
+        });
+
+        expect(browser.inputs(s.name)).toEqual(["Test Chain 0x539"]);
+        expect(browser.inputs(s.chainId)).toEqual(["0x539"]);
+        expect(browser.inputs(s.rpcUrl)).toEqual(["http://127.0.0.1:8545/"]);
+        expect(browser.current).toBe("wallet-test-chain");
+        expect(adb).toEqual([
+            ["-s", "R58N", "reverse", "tcp:8545", "tcp:8545"],
+        ]);
+    });
+
+    it("reuses a network it configured and updates its RPC URL", async () => {
+        const s = selectors.networks;
+        const { browser, glue } = start(
+            "wallet",
+            {
+                wallet: {
+                    source: fixture("wallet"),
+                    transitions: { [s.open]: "networks" },
+                },
+                networks: {
+                    source: fixture("networks"),
+                    transitions: { [s.addCustom]: "add-network" },
+                },
+                "add-network": {
+                    source: fixture("add-network"),
+                    transitions: { [s.confirmNetwork]: "wallet-network-added" },
+                },
+                "wallet-network-added": {
+                    source: fixture("wallet"),
+                    transitions: { [s.open]: "networks-test-chain" },
+                },
+                "networks-test-chain": {
+                    source: fixture("networks-test-chain"),
+                    transitions: {
+                        [s.select("Test Chain 0x539")]: "network-education",
+                        [s.options("Test Chain 0x539")]: "network-options",
+                    },
+                },
+                "network-education": {
+                    source: fixture("network-education"),
+                    transitions: { [s.educationClose]: "wallet-test-chain" },
+                },
+                "network-options": {
+                    source: fixture("network-options"),
+                    transitions: { [s.edit]: "edit-network" },
+                },
+                "edit-network": {
+                    source: fixture("add-network"),
+                    transitions: { [s.confirmNetwork]: "wallet-test-chain" },
+                },
+                "wallet-test-chain": {
+                    source: fixture("wallet-test-chain"),
+                    transitions: { [s.open]: "networks-test-chain" },
+                },
+            },
+            { network: { symbol: "DEV", explorer: "https://explorer.test/" } },
+        );
+
+        await glue.activateChain({
+            chainId: "0x539",
+            rpcUrl: "http://127.0.0.1:8545/",
+        });
+        await glue.activateChain({
+            chainId: "0x0539",
+            rpcUrl: "http://127.0.0.1:8545/",
+        });
+
+        const added = browser.interactions.filter(
+            (i) => i.xpath === s.addCustom,
+        );
+        expect(added).toHaveLength(1);
+        expect(browser.inputs(s.symbol)).toEqual(["DEV"]);
+        expect(browser.inputs(s.explorerUrl)).toEqual([
+            "https://explorer.test/",
+        ]);
+
+        await glue.activateChain({
+            chainId: "1337",
+            rpcUrl: "http://127.0.0.1:9545/",
+        });
+
+        expect(browser.clicked(s.edit)).toBe(true);
+        expect(browser.inputs(s.name)).toEqual(["Test Chain 0x539"]);
+        expect(browser.inputs(s.rpcUrl)).toEqual([
+            "http://127.0.0.1:8545/",
+            "http://127.0.0.1:9545/",
+        ]);
+        expect(browser.current).toBe("wallet-test-chain");
+    });
+
+    it("updates a network MetaMask already has for the chain", async () => {
+        const s = selectors.networks;
+        const { browser, glue } = start("wallet", {
+            wallet: {
+                source: fixture("wallet"),
+                transitions: { [s.open]: "networks" },
+            },
+            networks: {
+                source: fixture("networks"),
+                transitions: { [s.addCustom]: "add-network-in-use" },
+            },
+            "add-network-in-use": {
+                source: fixture("add-network-in-use"),
+                back: "wallet-network-added",
+            },
+            "wallet-network-added": {
+                source: fixture("wallet"),
+                transitions: { [s.open]: "networks-test-chain" },
+            },
+            "networks-test-chain": {
+                source: fixture("networks-test-chain"),
+                transitions: {
+                    [s.select("Test Chain 0x539")]: "wallet-test-chain",
+                    [s.options("Test Chain 0x539")]: "network-options",
+                },
+            },
+            "network-options": {
+                source: fixture("network-options"),
+                transitions: { [s.edit]: "edit-network" },
+            },
+            "edit-network": {
+                source: fixture("add-network"),
+                transitions: { [s.confirmNetwork]: "wallet-network-added" },
+            },
+            "wallet-test-chain": { source: fixture("wallet-test-chain") },
+        });
+
+        await glue.activateChain({
+            chainId: "0x539",
+            rpcUrl: "http://127.0.0.1:8545/",
+        });
+
+        expect(browser.inputs(s.symbol)).toEqual([]);
+        expect(browser.inputs(s.rpcUrl)).toEqual(["http://127.0.0.1:8545/"]);
+        expect(browser.clicked(s.edit)).toBe(true);
+        expect(browser.current).toBe("wallet-test-chain");
+    });
+});
@@ -0,0 +1,173 @@
+import { Lock, LockTimeoutError } from "../src/lock.js";
+import { LogRecord, configureLogger } from "../src/logger.js";
+import { describe, expect, it } from "vitest";
+
+function deferred(): { promise: Promise<void>; resolve: () => void } {
+    let resolve = () => {};
+    const promise = new Promise<void>((res) => {
+        resolve = res;
+    });
+    return { promise, resolve };
+}
+
+describe("Lock", () => {
+    it("passes the protected data to the callback", async () => {
+        const lock = new Lock({ value: 7 });
+        await expect(
+            lock.lock((data) => Promise.resolve(data.value)),
+        ).resolves.toBe(7);
+    });
+
+    it("runs queued callbacks one at a time, in order", async () => {
+        const lock = new Lock(null);
+        const order: string[] = [];
+        const gate = deferred();
+
+        const first = lock.lock(async () => {
+            order.push("first start");
+            await gate.promise;
+            order.push("first end");
+        });
+
+        const second = lock.lock(() => {
+            order.push("second");
+            return Promise.resolve();
+        });
+
+        const third = lock.lock(() => {
+            order.push("third");
+            return Promise.resolve();
+        });
+
+        expect(order).toEqual(["first start"]);
+
+        gate.resolve();
+        await Promise.all([first, second, third]);
+
+        expect(order).toEqual(["first start", "first end", "second", "third"]);
+    });
+
+    it("keeps running queued callbacks after one rejects", async () => {
+        const lock = new Lock(null);
+        const gate = deferred();
+
+        const first = lock.lock(async () => {
+            await gate.promise;
+        });
+        const failing = lock.lock(() => Promise.reject(new Error("boom")));
+        const after = lock.lock(() => Promise.resolve("after"));
+
+        gate.resolve();
+        await first;
+
+        await expect(failing).rejects.toThrow("boom");
+        await expect(after).resolves.toBe("after");
+    });
+
+    it("runs waiting callbacks with a higher priority first", async () => {
+        const lock = new Lock(null);
+        const order: string[] = [];
+        const gate = deferred();
+
+        const first = lock.lock(() => gate.promise);
+        const queued = ["poll", "action", "poll again", "stop"].map(
+            (name, ii) =>
+                lock.lock(
+                    () => {
+                        order.push(name);
+                        return Promise.resolve();
+                    },
+                    { priority: [0, 10, 0, 20][ii] },
+                ),
+        );
+
+        gate.resolve();
+        await Promise.all([first, ...queued]);
+
+        expect(order).toEqual(["stop", "action", "poll", "poll again"]);
+    });
+
+    it("gives up waiting after the timeout", async () => {
+        const lock = new Lock(null);
+        const gate = deferred();
+        let ran = false;
+
+        const first = lock.lock(() => gate.promise, {
+            fields: { task: "watchWindows" },
+        });
+        const waiting = lock.lock(
+            () => {
+                ran = true;
+                return Promise.resolve();
+            },
+            { timeout: 10 },
+        );
+
+        await expect(waiting).rejects.toThrow(LockTimeoutError);
+        await expect(waiting).rejects.toThrow(/held by task=watchWindows/);
+
+        gate.resolve();
+        await first;
+        await expect(lock.lock(() => Promise.resolve(3))).resolves.toBe(3);
+        expect(ran).toBe(false);
+    });
+
+    it("stops waiting when aborted", async () => {
+        const lock = new Lock(null);
+        const gate = deferred();
+        const controller = new AbortController();
+
+        const first = lock.lock(() => gate.promise);
+        const waiting = lock.lock(() => Promise.resolve(), {
+            signal: controller.signal,
+        });
+
+        controller.abort(new Error("stopped"));
+        await expect(waiting).rejects.toThrow("stopped");
+        await expect(
+            lock.lock(() => Promise.resolve(), { signal: controller.signal }),
+        ).rejects.toThrow("stopped");
+
+        gate.resolve();
+        await first;
+    });
+
+    it("names the caller holding the lock for too long", async () => {
+        const lines: string[] = [];
+        configureLogger({ write: (line) => lines.push(line), format: "json" });
+
+        try {
+            const lock = new Lock(null, 10);
+            const gate = deferred();
+
+            const first = lock.lock(() => gate.promise, {
+                fields: { action: "activateChain" },
+            });
+            const second = lock.lock(() => Promise.resolve(), {
+                fields: { task: "watchWindows" },
+            });
+
+            await new Promise((res) => setTimeout(res, 50));
+            gate.resolve();
+            await Promise.all([first, second]);
+        } finally {
+            configureLogger({
+                format: "text",
+                write: (line) => process.stderr.write(line),
+            });
+        }
+
+        const warnings = lines
+            .map((line) => JSON.parse(line) as LogRecord)
+            .filter((record) => record.level === "warn");
+
+        expect(warnings).toHaveLength(1);
+        expect(warnings[0]).toMatchObject({
+            component: "lock",
+            action: "activateChain",
+        });
+        expect(warnings[0].message).toMatch(
+            /after 10 ms, with 1 waiting: task=watchWindows/,
+        );
+    });
+});
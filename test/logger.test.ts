@@ -0,0 +1,92 @@
+import {
+    LogRecord,
+    configureLogger,
+    logger,
+    withLogFields,
+} from "../src/logger.js";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+let lines: string[];
+
+beforeEach(() => {
+    lines = [];
+    configureLogger({
+        level: "debug",
+        format: "json",
+        write: (line) => lines.push(line),
+    });
+});
+
+afterEach(() => {
+    configureLogger({
+        level: "info",
+        format: "text",
+        write: (line) => process.stderr.write(line),
+    });
+});
+
+function records(): LogRecord[] {
+    return lines.map((line) => JSON.parse(line) as LogRecord);
+}
+
+describe("Logger", () => {
+    it("carries fields from parent loggers", () => {
+        const log = logger.child({ component: "action" });
+        log.child({ event: "1234" }).info("approving %s", "request");
+
+        const [record] = records();
+        expect(record).toMatchObject({
+            level: "info",
+            component: "action",
+            event: "1234",
+            message: "approving request",
+        });
+        expect(Date.parse(record.time)).not.toBeNaN();
+    });
+
+    it("drops records below the configured level", () => {
+        configureLogger({ level: "warn" });
+
+        logger.debug("hidden");
+        logger.info("hidden");
+        logger.warn("shown");
+        logger.error("shown");
+
+        expect(records().map((r) => r.level)).toEqual(["warn", "error"]);
+    });
+
+    it("writes text records on one line", () => {
+        configureLogger({ format: "text" });
+
+        logger
+            .child({ component: "watcher", event: "abcd" })
+            .warn("detected %s", "connect-account");
+
+        expect(lines).toHaveLength(1);
+        expect(lines[0]).toMatch(
+            /^\S+ WARN watcher: detected connect-account event=abcd\n$/,
+        );
+    });
+
+    it("adds context fields to records logged inside withLogFields", async () => {
+        const log = logger.child({ component: "glue" });
+
+        await Promise.all([
+            withLogFields({ device: "a" }, async () => {
+                await Promise.resolve();
+                log.info("first");
+            }),
+            withLogFields({ device: "b" }, () => {
+                log.child({ device: "override" }).info("second");
+                return Promise.resolve();
+            }),
+        ]);
+        log.info("outside");
+
+        expect(records().map((r) => [r.message, r.device])).toEqual([
+            ["second", "override"],
+            ["first", "a"],
+            ["outside", undefined],
+        ]);
+    });
+});
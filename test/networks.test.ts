@@ -0,0 +1,69 @@
+import { NetworkRegistry, normalizeChainId } from "../src/networks.js";
+import { describe, expect, it } from "vitest";
+
+describe("normalizeChainId", () => {
+    it("accepts hex and decimal chain IDs", () => {
+        expect(normalizeChainId("0x0539")).toBe("0x539");
+        expect(normalizeChainId("1337")).toBe("0x539");
+        expect(normalizeChainId("0xAA36A7")).toBe("0xaa36a7");
+    });
+
+    it("rejects anything else", () => {
+        expect(() => normalizeChainId("mainnet")).toThrow(/invalid chain ID/);
+        expect(() => normalizeChainId("0")).toThrow(/invalid chain ID/);
+    });
+});
+
+describe("NetworkRegistry", () => {
+    it("knows MetaMask's built in networks", () => {
+        const networks = new NetworkRegistry();
+        expect(networks.chainIdOf("Sepolia")).toBe("0xaa36a7");
+        expect(networks.nameOf("1")).toBe("Ethereum Main Network");
+        expect(networks.nameOf("0x539")).toBeUndefined();
+    });
+
+    it("fills in metadata for new networks", () => {
+        expect(new NetworkRegistry().metadataFor("0x539")).toEqual({
+            name: "Test Chain 0x539",
+            symbol: "TETH",
+            explorer: "https://example.com/",
+        });
+        expect(
+            new NetworkRegistry({
+                name: "Devnet ({chainId})",
+                symbol: "DEV",
+            }).metadataFor("0x2a"),
+        ).toEqual({
+            name: "Devnet (0x2a)",
+            symbol: "DEV",
+            explorer: "https://example.com/",
+        });
+    });
+
+    it("tracks networks configured during the session", () => {
+        const networks = new NetworkRegistry();
+        networks.record({
+            chainId: "0x0539",
+            name: "Local",
+            rpcUrl: "http://127.0.0.1:8545/",
+        });
+        networks.record({
+            chainId: "1337",
+            name: "Local",
+            rpcUrl: "http://127.0.0.1:9545/",
+        });
+
+        expect(networks.nameOf("0x539")).toBe("Local");
+        expect(networks.chainIdOf("Local")).toBe("0x539");
+        expect(networks.configuredFor("1337")?.rpcUrl).toBe(
+            "http://127.0.0.1:9545/",
+        );
+        expect(networks.session).toEqual([
+            {
+                chainId: "0x539",
+                name: "Local",
+                rpcUrl: "http://127.0.0.1:9545/",
+            },
+        ]);
+    });
+});
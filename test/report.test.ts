@@ -0,0 +1,161 @@
+import { combineReports, formatReport, readResults } from "../src/report.js";
+import { describe, expect, it } from "vitest";
+
+const mocha = {
+    stats: { tests: 3, passes: 1, failures: 1, pending: 1 },
+    tests: [
+        {
+            title: "returns accounts",
+            fullTitle: "eth_requestAccounts returns accounts",
+            duration: 1500,
+            err: {},
+        },
+        {
+            title: "sends <value>",
+            fullTitle: "eth_sendTransaction sends <value>",
+            duration: 250,
+            err: { message: "expected 1 & 2", stack: "Error: expected\nat x" },
+        },
+        {
+            title: "signs",
+            fullTitle: "eth_signTypedData signs",
+            err: {},
+        },
+    ],
+    pending: [{ title: "signs", fullTitle: "eth_signTypedData signs" }],
+};
+
+const report = { format: "mocha", value: mocha };
+
+describe("readResults", () => {
+    it("reads mocha's JSON reporter output", () => {
+        expect(readResults(report)).toEqual([
+            {
+                suite: "eth_requestAccounts",
+                title: "returns accounts",
+                state: "passed",
+                duration: 1500,
+                message: undefined,
+                stack: undefined,
+            },
+            {
+                suite: "eth_sendTransaction",
+                title: "sends <value>",
+                state: "failed",
+                duration: 250,
+                message: "expected 1 & 2",
+                stack: "Error: expected\nat x",
+            },
+            {
+                suite: "eth_signTypedData",
+                title: "signs",
+                state: "pending",
+                duration: undefined,
+                message: undefined,
+                stack: undefined,
+            },
+        ]);
+    });
+
+    it("accepts the same report as a JSON string", () => {
+        const text = { format: "mocha", value: JSON.stringify(mocha) };
+        expect(readResults(text)).toEqual(readResults(report));
+    });
+
+    it("returns null for reports without results", () => {
+        expect(readResults({ format: "text", value: "3 passing" })).toBeNull();
+        expect(readResults({ format: "x", value: { tests: 3 } })).toBeNull();
+    });
+});
+
+describe("formatReport", () => {
+    it("writes raw strings untouched and other values as JSON", () => {
+        expect(formatReport({ format: "text", value: "ok" }, "raw")).toBe("ok");
+        expect(formatReport({ format: "x", value: { a: 1 } }, "raw")).toBe(
+            '{\n    "a": 1\n}\n',
+        );
+    });
+
+    it("writes JUnit XML", () => {
+        const xml = formatReport(report, "junit");
+
+        expect(xml).toContain(
+            '<testsuites name="Wallet Test Framework" tests="3" failures="1" skipped="1" time="1.750">',
+        );
+        expect(xml).toContain(
+            '<testcase classname="eth_requestAccounts" name="returns accounts" time="1.500"/>',
+        );
+        expect(xml).toContain('name="sends &lt;value&gt;"');
+        expect(xml).toContain('<failure message="expected 1 &amp; 2">');
+        expect(xml).toContain("<skipped/>");
+    });
+
+    it("writes TAP", () => {
+        expect(formatReport(report, "tap")).toBe(
+            [
+                "TAP version 13",
+                "1..3",
+                "ok 1 - eth_requestAccounts returns accounts",
+                "not ok 2 - eth_sendTransaction sends <value>",
+                "  ---",
+                '  message: "expected 1 & 2"',
+                "  stack: |-",
+                "    Error: expected",
+                "    at x",
+                "  ...",
+                "ok 3 - eth_signTypedData signs # SKIP",
+                "",
+            ].join("\n"),
+        );
+    });
+
+    it("refuses to invent results for JUnit and TAP", () => {
+        expect(() =>
+            formatReport({ format: "text", value: "3 passing" }, "junit"),
+        ).toThrow(/no test results/);
+    });
+});
+
+describe("combineReports", () => {
+    const combined = combineReports([
+        { device: "pixel", report },
+        { device: "galaxy", error: "MetaMask setup failed" },
+    ]);
+
+    it("labels each device's results", () => {
+        const results = readResults(combined);
+
+        expect(results?.map((r) => [r.device, r.suite, r.state])).toEqual([
+            ["pixel", "[pixel] eth_requestAccounts", "passed"],
+            ["pixel", "[pixel] eth_sendTransaction", "failed"],
+            ["pixel", "[pixel] eth_signTypedData", "pending"],
+            ["galaxy", "[galaxy]", "failed"],
+        ]);
+        expect(formatReport(combined, "tap")).toContain(
+            "not ok 4 - [galaxy] run",
+        );
+    });
+
+    it("writes raw reports under a heading per device", () => {
+        const text = formatReport(
+            combineReports([
+                { device: "pixel", report: { format: "text", value: "ok" } },
+                { device: "galaxy", error: "unreachable" },
+            ]),
+            "raw",
+        );
+
+        expect(text).toBe(
+            "==> pixel <==\nok\n\n==> galaxy <==\nfailed: unreachable\n",
+        );
+    });
+
+    it("can't convert when any device's report has no results", () => {
+        const mixed = combineReports([
+            { device: "pixel", report },
+            { device: "galaxy", report: { format: "text", value: "ok" } },
+        ]);
+
+        expect(readResults(mixed)).toBeNull();
+    });
+});
@@ -0,0 +1,117 @@
+import {
+    DEFAULT_RETRY_POLICY,
+    RetryTimeoutError,
+    retry,
+    waitUntil,
+} from "../src/retry.js";
+import { describe, expect, it } from "vitest";
+
+describe("retry", () => {
+    it("returns the first result that doesn't throw", async () => {
+        const attempts: number[] = [];
+        const result = await retry(
+            "typing",
+            (attempt) => {
+                attempts.push(attempt);
+                if (attempt < 3) {
+                    return Promise.reject(new Error("not yet"));
+                }
+                return Promise.resolve("typed");
+            },
+            { delay: 1 },
+        );
+
+        expect(result).toBe("typed");
+        expect(attempts).toEqual([1, 2, 3]);
+    });
+
+    it("names the step and the last error when attempts run out", async () => {
+        let calls = 0;
+        const failure = await retry(
+            "entering the chain ID",
+            () => {
+                calls += 1;
+                return Promise.reject(new Error(`failure ${calls}`));
+            },
+            { attempts: 3, delay: 1 },
+        ).catch((e: unknown) => e);
+
+        expect(calls).toBe(3);
+        expect(failure).toBeInstanceOf(RetryTimeoutError);
+        expect(failure).toMatchObject({
+            step: "entering the chain ID",
+            attempts: 3,
+        });
+        expect((failure as Error).message).toMatch(
+            /^entering the chain ID gave up after 3 attempts in [0-9.]+ s: failure 3$/,
+        );
+    });
+
+    it("stops at the deadline, backing off between attempts", async () => {
+        const times: number[] = [];
+        const failure = await retry(
+            "saving",
+            () => {
+                times.push(performance.now());
+                return Promise.reject(new Error("still there"));
+            },
+            {
+                attempts: 100,
+                delay: 10,
+                backoff: 2,
+                maxDelay: 40,
+                deadline: 100,
+            },
+        ).catch((e: unknown) => e);
+
+        expect(failure).toBeInstanceOf(RetryTimeoutError);
+        // Waits of 10, 20, 40 and 40 ms fit in the deadline at best.
+        expect(times.length).toBeGreaterThanOrEqual(3);
+        expect(times.length).toBeLessThanOrEqual(5);
+        expect(times[times.length - 1] - times[0]).toBeLessThanOrEqual(100);
+        expect(times[2] - times[1]).toBeGreaterThanOrEqual(19);
+    });
+
+    it("keeps trying until a given deadline", async () => {
+        let calls = 0;
+        const failure = await retry(
+            "waiting for the screen to close",
+            () => {
+                calls += 1;
+                return Promise.reject(new Error("still open"));
+            },
+            { delay: 1, backoff: 1, deadline: 200 },
+        ).catch((e: unknown) => e);
+
+        expect(failure).toBeInstanceOf(RetryTimeoutError);
+        expect(calls).toBeGreaterThan(DEFAULT_RETRY_POLICY.attempts);
+    });
+});
+
+describe("waitUntil", () => {
+    it("waits for the condition, counting errors as not yet", async () => {
+        let checks = 0;
+        await waitUntil(
+            "unlocking",
+            () => {
+                checks += 1;
+                if (checks === 1) {
+                    return Promise.reject(new Error("stale element"));
+                }
+                return Promise.resolve(checks === 3);
+            },
+            { delay: 1 },
+        );
+
+        expect(checks).toBe(3);
+    });
+
+    it("gives up with a timeout naming the step", async () => {
+        await expect(
+            waitUntil("dismissing the reminder", () => Promise.resolve(false), {
+                attempts: 2,
+                delay: 1,
+            }),
+        ).rejects.toThrow(/^dismissing the reminder gave up after 2 attempts/);
+    });
+});
@@ -0,0 +1,122 @@
+import { close, glueUrl, listen } from "../src/server.js";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { request } from "node:http";
+import { AddressInfo, Socket } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+
+describe("glueUrl", () => {
+    it("uses loopback for wildcard addresses", () => {
+        expect(
+            glueUrl({ address: "0.0.0.0", family: "IPv4", port: 3001 }),
+        ).toBe("ws://127.0.0.1:3001/");
+        expect(glueUrl({ address: "::", family: "IPv6", port: 3001 })).toBe(
+            "ws://127.0.0.1:3001/",
+        );
+    });
+
+    it("uses the bound address when it is specific", () => {
+        expect(
+            glueUrl({ address: "192.168.1.5", family: "IPv4", port: 40123 }),
+        ).toBe("ws://192.168.1.5:40123/");
+        expect(glueUrl({ address: "fe80::1", family: "IPv6", port: 80 })).toBe(
+            "ws://[fe80::1]:80/",
+        );
+    });
+
+    it("prefers the advertised URL", () => {
+        expect(
+            glueUrl("/tmp/glue.sock", "wss://glue.example.com:8443/ws"),
+        ).toBe("wss://glue.example.com:8443/ws");
+    });
+
+    it("rejects unreachable or invalid addresses", () => {
+        expect(() => glueUrl("/tmp/glue.sock")).toThrow(/unix socket/);
+        expect(() => glueUrl(null)).toThrow(/isn't listening/);
+        expect(() =>
+            glueUrl(
+                { address: "::", family: "IPv6", port: 1 },
+                "http://x.test/",
+            ),
+        ).toThrow(/ws:\/\//);
+    });
+});
+
+describe("listen", () => {
+    it("binds an ephemeral port", async () => {
+        const server = await listen({ host: "127.0.0.1", port: 0 });
+        try {
+            const url = new URL(glueUrl(server.address()));
+            expect(url.hostname).toBe("127.0.0.1");
+            expect(Number(url.port)).toBeGreaterThan(0);
+        } finally {
+            await close(server);
+        }
+    });
+
+    it("advertises IPv4 loopback when listening on every interface", async () => {
+        const server = await listen({ port: 0 });
+        try {
+            const url = new URL(glueUrl(server.address()));
+            expect(url.hostname).toBe("127.0.0.1");
+            expect(Number(url.port)).toBeGreaterThan(0);
+        } finally {
+            await close(server);
+        }
+    });
+
+    it("closes with an upgraded connection still open", async () => {
+        const server = await listen({ host: "127.0.0.1", port: 0 });
+        server.on("upgrade", (_req, socket: Socket) => {
+            socket.write(
+                "HTTP/1.1 101 Switching Protocols\r\nUpgrade: test\r\nConnection: Upgrade\r\n\r\n",
+            );
+        });
+
+        const { port } = server.address() as AddressInfo;
+        const client = await new Promise<Socket>((resolve, reject) => {
+            const req = request({
+                host: "127.0.0.1",
+                port,
+                headers: { Connection: "Upgrade", Upgrade: "test" },
+            });
+            req.on("upgrade", (_res, socket) => resolve(socket));
+            req.on("error", reject);
+            req.end();
+        });
+
+        const ended = new Promise((resolve) => client.once("close", resolve));
+        await close(server);
+        await ended;
+    });
+
+    it("binds a unix socket", async () => {
+        const dir = await mkdtemp(join(tmpdir(), "glue-socket-"));
+        const socket = join(dir, "glue.sock");
+
+        try {
+            const server = await listen({ port: 0, socket });
+            try {
+                expect(server.address()).toBe(socket);
+            } finally {
+                await close(server);
+            }
+        } finally {
+            await rm(dir, { recursive: true, force: true });
+        }
+    });
+
+    it("won't replace a file that isn't a socket", async () => {
+        const dir = await mkdtemp(join(tmpdir(), "glue-socket-"));
+        const socket = join(dir, "notes.txt");
+        await writeFile(socket, "keep me");
+
+        try {
+            await expect(listen({ port: 0, socket })).rejects.toThrow();
+            expect(await readFile(socket, "utf8")).toBe("keep me");
+        } finally {
+            await rm(dir, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,82 @@
+import { TraceEntry, Tracer } from "../src/trace.js";
+import { FakeBrowser, fixture } from "./fake-browser.js";
+import { mkdtemp, readFile, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+let dir: string;
+
+beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "glue-trace-"));
+});
+
+afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+});
+
+async function entries(): Promise<TraceEntry[]> {
+    const json = await readFile(join(dir, "trace.json"), "utf8");
+    return JSON.parse(json) as TraceEntry[];
+}
+
+describe("Tracer", () => {
+    it("records spans with the screen at the end", async () => {
+        const browser = new FakeBrowser(
+            { wallet: { source: fixture("wallet") } },
+            "wallet",
+        );
+        const tracer = await Tracer.create(dir);
+
+        const result = await tracer.span(
+            browser.asBrowser(),
+            "action",
+            "requestAccounts",
+            () => Promise.resolve(7),
+        );
+        tracer.note("event", "requestaccounts", { value: 1n });
+        await tracer.close();
+
+        expect(result).toBe(7);
+
+        const [span, event] = await entries();
+        expect(span).toMatchObject({
+            index: 0,
+            kind: "action",
+            name: "requestAccounts",
+            source: "00000-action.xml",
+            screenshot: "00000-action.png",
+        });
+        expect(span.duration).toBeGreaterThanOrEqual(0);
+        expect(event).toMatchObject({
+            kind: "event",
+            name: "requestaccounts",
+            detail: { value: "1" },
+        });
+
+        const source = await readFile(join(dir, "00000-action.xml"), "utf8");
+        expect(source).toBe(fixture("wallet"));
+
+        const files = await readdir(dir);
+        expect(files).toContain("index.html");
+    });
+
+    it("records failed spans and rethrows", async () => {
+        const browser = new FakeBrowser(
+            { wallet: { source: fixture("wallet") } },
+            "wallet",
+        );
+        const tracer = await Tracer.create(dir);
+
+        await expect(
+            tracer.span(browser.asBrowser(), "lock", "setup", () =>
+                Promise.reject(new Error("boom")),
+            ),
+        ).rejects.toThrow("boom");
+        await tracer.close();
+
+        const [span] = await entries();
+        expect(span.error).toContain("boom");
+        expect(span.source).toBe("00000-lock.xml");
+    });
+});
@@ -0,0 +1,54 @@
+import {
+    abbreviateAddress,
+    deriveAddresses,
+    resolveWalletOptions,
+    toChecksumAddress,
+} from "../src/wallet.js";
+import { describe, expect, it } from "vitest";
+
+const SEED =
+    "basket cradle actor pizza similar liar suffer another all fade flag brave";
+
+describe("deriveAddresses", () => {
+    it("derives the same accounts as MetaMask", () => {
+        expect(deriveAddresses(SEED, 2)).toEqual([
+            "0xb7b4d68047536a87f0926a76dd0b96b3a044c8cf",
+            "0x3b577469623d58299878b0676f2a217cb2bfaab7",
+        ]);
+    });
+});
+
+describe("toChecksumAddress", () => {
+    it("matches the EIP-55 test vectors", () => {
+        expect(
+            toChecksumAddress("0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed"),
+        ).toBe("0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed");
+        expect(
+            toChecksumAddress("0xfb6916095ca1df60bb79ce92ce3ea74c37c5d359"),
+        ).toBe("0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359");
+    });
+});
+
+describe("abbreviateAddress", () => {
+    it("matches the abbreviation MetaMask shows", () => {
+        expect(
+            abbreviateAddress("0xb7b4d68047536a87f0926a76dd0b96b3a044c8cf"),
+        ).toBe("0xb7B4...C8Cf");
+    });
+});
+
+describe("resolveWalletOptions", () => {
+    it("prefers options over the environment", () => {
+        const options = resolveWalletOptions(
+            { password: "from-options" },
+            { METAMASK_PASSWORD: "from-environment" },
+        );
+        expect(options.password).toBe("from-options");
+    });
+
+    it("rejects invalid seed phrases", () => {
+        expect(() =>
+            resolveWalletOptions({ seed: "not a seed phrase" }, {}),
+        ).toThrow("not a valid BIP-39 mnemonic");
+    });
+});